@@ -1,11 +1,19 @@
 // App.tsx
 
 import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, View, Dimensions, Animated, PanResponder, Easing } from 'react-native';
+import { StyleSheet, View, Dimensions, Animated, PanResponder, Easing, TouchableOpacity, Text } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { IntensitySlider } from './components/IntensitySlider';
 import {MusicVisualizer} from "./components/MusicVisualizer";
 import { MusicServiceManager } from './services/MusicServiceManager';
+import { TrackRegistry } from './services/TrackRegistry';
+import { MediaSession } from './services/MediaSession';
+import { SessionSummary as SessionSummaryData } from './services/SessionHistory';
+import { SessionSummary } from './components/SessionSummary';
+import { ProgramPicker } from './components/ProgramPicker';
+import { Credits } from './components/Credits';
+import { ProgramLibrary } from './services/ProgramLibrary';
+import { IntensityProgram } from './services/IntensityProgram';
 
 const { width, height } = Dimensions.get('window');
 
@@ -23,6 +31,31 @@ export default function App() {
 
     const [showVisualizer, setShowVisualizer] = useState(false);
     const [confirmedIntensity, setConfirmedIntensity] = useState(0);
+    const [sessionMinutes, setSessionMinutes] = useState<number | null>(null);
+    const [ambienceOnly, setAmbienceOnly] = useState(false);
+    const [sessionSummary, setSessionSummary] = useState<SessionSummaryData | null>(null);
+
+    // Programs are an alternative to picking a side and intensity by hand
+    const programLibrary = useRef(new ProgramLibrary()).current;
+    const [showPrograms, setShowPrograms] = useState(false);
+    const [activeProgram, setActiveProgram] = useState<IntensityProgram | null>(null);
+    const [showCredits, setShowCredits] = useState(false);
+
+    // Catch catalog mistakes at launch rather than mid-session, and pick up
+    // selection, session history and the master volume from previous launches
+    useEffect(() => {
+        TrackRegistry.validate();
+        TrackRegistry.loadSelectionState();
+        MusicServiceManager.getInstance().loadSessionHistory();
+        MusicServiceManager.getInstance().loadPlaybackSettings();
+    }, []);
+
+    // Lock screen and notification controls for as long as the app is open
+    useEffect(() => {
+        const mediaSession = new MediaSession(MusicServiceManager.getInstance());
+        mediaSession.start();
+        return () => mediaSession.stop();
+    }, []);
 
     useEffect(() => {
         // Warm side: gentle pulsing
@@ -133,6 +166,24 @@ export default function App() {
         },
     });
 
+    // Checked first — the finished session still has a side selected
+    if (sessionSummary) {
+        return (
+            <SessionSummary
+                summary={sessionSummary}
+                onDone={() => {
+                    // A finished session starts over from the diagonal
+                    setSessionSummary(null);
+                    setActiveProgram(null);
+                    setSelectedSide(null);
+                    setTouchPoint(null);
+                    backgroundOpacity.setValue(1);
+                    circleScale.setValue(0);
+                }}
+            />
+        );
+    }
+
     if (selectedSide && !isTransitioning && !showVisualizer) {
         return (
             <IntensitySlider
@@ -165,11 +216,33 @@ export default function App() {
                     });
                     setShowVisualizer(false);
                 }}
-                onConfirmIntensity={(energyState, intensity) => {
-                    console.log('Transitioning to visualizer with: ', { energyState, intensity });
+                onConfirmIntensity={(energyState, intensity, minutes, withoutMusic) => {
+                    console.log('Transitioning to visualizer with: ', { energyState, intensity, minutes, withoutMusic });
                     setConfirmedIntensity(intensity);
+                    setSessionMinutes(minutes);
+                    setAmbienceOnly(withoutMusic);
+                    setShowVisualizer(true);
+                }}
+            />
+        );
+    }
+
+    if (showCredits) {
+        return <Credits onBack={() => setShowCredits(false)} />;
+    }
+
+    if (showPrograms) {
+        return (
+            <ProgramPicker
+                library={programLibrary}
+                onSelectProgram={(program) => {
+                    console.log('Starting program:', program.name);
+                    setActiveProgram(program);
+                    setSelectedSide(program.keyframes[0].energyState);
+                    setShowPrograms(false);
                     setShowVisualizer(true);
                 }}
+                onBack={() => setShowPrograms(false)}
             />
         );
     }
@@ -179,9 +252,24 @@ export default function App() {
             <MusicVisualizer
                 energyState={selectedSide}
                 intensityLevel={confirmedIntensity}
+                sessionMinutes={sessionMinutes}
+                ambienceOnly={ambienceOnly}
+                program={activeProgram}
+                onSessionComplete={(summary) => {
+                    setShowVisualizer(false);
+                    setSessionSummary(summary);
+                }}
                 onBack={() => {
-                    console.log('Returning from visualizer to intensity slider');
                     setShowVisualizer(false);
+                    // Programs return to the program list — there's no intensity to go back to
+                    if (activeProgram) {
+                        console.log('Returning from visualizer to programs');
+                        setActiveProgram(null);
+                        setSelectedSide(null);
+                        setShowPrograms(true);
+                        return;
+                    }
+                    console.log('Returning from visualizer to intensity slider');
                     // Note: This returns to IntensitySlider, not diagonal screen
                     // selectedSide and touchPoint remain set
                 }}
@@ -243,6 +331,28 @@ export default function App() {
                 />
             )}
 
+            {/* Programs entry — hidden once a side has been picked */}
+            {!isTransitioning && (
+                <TouchableOpacity
+                    style={styles.programsButton}
+                    onPress={() => setShowPrograms(true)}
+                    activeOpacity={0.6}
+                >
+                    <Text style={styles.programsText}>Programs</Text>
+                </TouchableOpacity>
+            )}
+
+            {/* Credits entry — same rule as programs */}
+            {!isTransitioning && (
+                <TouchableOpacity
+                    style={styles.creditsButton}
+                    onPress={() => setShowCredits(true)}
+                    activeOpacity={0.6}
+                >
+                    <Text style={styles.creditsText}>Credits</Text>
+                </TouchableOpacity>
+            )}
+
             {/* Dark background overlay during transition */}
             {isTransitioning && (
                 <Animated.View
@@ -289,6 +399,34 @@ const styles = StyleSheet.create({
         width: width,
         height: height,
     },
+    programsButton: {
+        position: 'absolute',
+        top: 60,
+        alignSelf: 'center',
+        paddingVertical: 10,
+        paddingHorizontal: 20,
+        zIndex: 1000,
+    },
+    programsText: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 14,
+        fontWeight: '300',
+        letterSpacing: 1,
+    },
+    creditsButton: {
+        position: 'absolute',
+        bottom: 40,
+        alignSelf: 'center',
+        paddingVertical: 10,
+        paddingHorizontal: 20,
+        zIndex: 1000,
+    },
+    creditsText: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 12,
+        fontWeight: '300',
+        letterSpacing: 1,
+    },
     transitionCircle: {
         position: 'absolute',
         width: 50,
@@ -0,0 +1,116 @@
+// Credits.tsx
+
+import React, { useMemo } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { TrackRegistry } from '../services/TrackRegistry';
+import { formatCategoryLabel } from '../services/MediaSession';
+
+interface CreditsProps {
+    onBack: () => void;
+}
+
+const ENERGY_COLORS = { warm: '#FF6B35', cool: '#4A90E2' };
+
+export const Credits = ({ onBack }: CreditsProps) => {
+    // Built from the live catalog, so overlay packs are credited too
+    const credits = useMemo(() => TrackRegistry.getCredits(), []);
+
+    return (
+        <View style={styles.container}>
+            {/* Back button */}
+            <TouchableOpacity style={styles.backButton} onPress={onBack} activeOpacity={0.6}>
+                <View style={styles.backArrow} />
+            </TouchableOpacity>
+
+            <Text style={styles.heading}>Credits</Text>
+
+            <ScrollView style={styles.list}>
+                {credits.map(group => (
+                    <View key={group.artist ?? 'unattributed'} style={styles.artist}>
+                        <Text style={styles.artistName}>{group.artist ?? 'Unattributed'}</Text>
+                        {group.tracks.map(track => {
+                            const energy = track.category.split('-')[0];
+                            const color = energy === 'warm' || energy === 'cool'
+                                ? ENERGY_COLORS[energy]
+                                : 'rgba(255, 255, 255, 0.3)';
+                            return (
+                                <View key={track.id} style={[styles.track, { borderLeftColor: color }]}>
+                                    <Text style={styles.trackTitle}>{track.title ?? 'Untitled track'}</Text>
+                                    <Text style={styles.trackDetail}>
+                                        {track.license ?? 'No license on file'} · {formatCategoryLabel(track.category)}
+                                    </Text>
+                                </View>
+                            );
+                        })}
+                    </View>
+                ))}
+            </ScrollView>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#000000',
+        paddingTop: 120,
+        paddingHorizontal: 24,
+        paddingBottom: 40,
+    },
+    backButton: {
+        position: 'absolute',
+        top: 60,
+        left: 20,
+        width: 44,
+        height: 44,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    backArrow: {
+        width: 0,
+        height: 0,
+        borderTopWidth: 8,
+        borderBottomWidth: 8,
+        borderRightWidth: 12,
+        borderTopColor: 'transparent',
+        borderBottomColor: 'transparent',
+        borderRightColor: 'rgba(255, 255, 255, 0.6)',
+    },
+    heading: {
+        color: 'rgba(255, 255, 255, 0.95)',
+        fontSize: 24,
+        fontWeight: '300',
+        marginBottom: 24,
+    },
+    list: {
+        flex: 1,
+    },
+    artist: {
+        marginBottom: 28,
+    },
+    artistName: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 12,
+        fontWeight: '300',
+        letterSpacing: 1,
+        marginBottom: 12,
+    },
+    track: {
+        borderLeftWidth: 3,
+        paddingLeft: 12,
+        paddingVertical: 6,
+        marginBottom: 10,
+    },
+    trackTitle: {
+        color: 'rgba(255, 255, 255, 0.9)',
+        fontSize: 16,
+        fontWeight: '300',
+        marginBottom: 2,
+    },
+    trackDetail: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 13,
+        fontWeight: '300',
+    },
+});
@@ -2,14 +2,26 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { StyleSheet, View, Dimensions, Animated, PanResponder, TouchableOpacity, Text } from 'react-native';
+import { BackgroundBehavior, MusicServiceManager, SessionMode } from '../services/MusicServiceManager';
 
 const { width, height } = Dimensions.get('window');
 
+// Session lengths offered before confirming, in minutes
+const SESSION_PRESETS = [5, 10, 20];
+const CUSTOM_MIN_MINUTES = 1;
+const CUSTOM_MAX_MINUTES = 120;
+
 interface IntensitySliderProps {
     selectedSide: 'warm' | 'cool';
     initialTouchPoint: {x: number; y: number} | null;
     onBack: () => void;
-    onConfirmIntensity?: (energyState: 'warm' | 'cool', intensity: number) => void;
+    // sessionMinutes is null for an open-ended session; ambienceOnly plays the bed without music
+    onConfirmIntensity?: (
+        energyState: 'warm' | 'cool',
+        intensity: number,
+        sessionMinutes: number | null,
+        ambienceOnly: boolean
+    ) => void;
 }
 
 const IntensitySlider = ({ selectedSide, initialTouchPoint, onBack, onConfirmIntensity }: IntensitySliderProps) => {
@@ -54,6 +66,21 @@ const IntensitySlider = ({ selectedSide, initialTouchPoint, onBack, onConfirmInt
     const netRotationRef = useRef(0);
     const lastAngleRef = useRef<number | null>(null);
 
+    // Session timer — open-ended until a length is picked
+    const [sessionMinutes, setSessionMinutes] = useState<number | null>(null);
+    const [isCustomLength, setIsCustomLength] = useState(false);
+
+    // Playback options live on the manager — set here, they carry into the session
+    const musicService = useRef(MusicServiceManager.getInstance()).current;
+    const [sessionMode, setSessionMode] = useState<SessionMode>(musicService.getSessionMode());
+    const [backgroundBehavior, setBackgroundBehavior] = useState<BackgroundBehavior>(
+        musicService.getBackgroundBehavior()
+    );
+    // Ambience bed for this side, remembered by the manager between sessions
+    const ambienceOptions = musicService.getAmbienceOptions(selectedSide);
+    const [ambienceId, setAmbienceId] = useState<string | null>(musicService.getAmbience(selectedSide));
+    const [ambienceOnly, setAmbienceOnly] = useState(false);
+
     // Slide to center on mount
     useEffect(() => {
         Animated.timing(animatedPosition, {
@@ -113,7 +140,42 @@ const IntensitySlider = ({ selectedSide, initialTouchPoint, onBack, onConfirmInt
         setIsLongPressing(true);
         setShowConfirmationPulse(true);
         console.log('Confirmed! Intensity:', intensity.toFixed(2));
-        onConfirmIntensity?.(selectedSide, intensity);
+        onConfirmIntensity?.(selectedSide, intensity, sessionMinutes, ambienceOnly && ambienceId !== null);
+    };
+
+    const toggleSessionMode = () => {
+        const next: SessionMode = sessionMode === 'repeat-track' ? 'stay-in-category' : 'repeat-track';
+        musicService.setSessionMode(next);
+        setSessionMode(next);
+    };
+
+    const toggleBackgroundBehavior = () => {
+        const next: BackgroundBehavior = backgroundBehavior === 'pause' ? 'keep-playing' : 'pause';
+        musicService.setBackgroundBehavior(next);
+        setBackgroundBehavior(next);
+    };
+
+    const selectAmbience = (id: string | null) => {
+        musicService.setAmbience(selectedSide, id);
+        setAmbienceId(id);
+        if (id === null) setAmbienceOnly(false);
+    };
+
+    const selectPreset = (minutes: number | null) => {
+        setIsCustomLength(false);
+        setSessionMinutes(minutes);
+    };
+
+    const selectCustomLength = () => {
+        setIsCustomLength(true);
+        setSessionMinutes(previous => previous ?? 15);
+    };
+
+    const adjustCustomLength = (deltaMinutes: number) => {
+        setSessionMinutes(previous => Math.max(
+            CUSTOM_MIN_MINUTES,
+            Math.min(CUSTOM_MAX_MINUTES, (previous ?? 15) + deltaMinutes)
+        ));
     };
 
     const panResponder = PanResponder.create({
@@ -192,6 +254,8 @@ const IntensitySlider = ({ selectedSide, initialTouchPoint, onBack, onConfirmInt
         },
     });
 
+    const accentColor = selectedSide === 'warm' ? '#FF6B35' : '#4A90E2';
+
     return (
         <View style={styles.container} {...panResponder.panHandlers}>
 
@@ -209,6 +273,105 @@ const IntensitySlider = ({ selectedSide, initialTouchPoint, onBack, onConfirmInt
                 </Animated.View>
             </TouchableOpacity>
 
+            {/* Session length — chosen before the confirmation swipe */}
+            {!isConfirmingSwipe && (
+                <Animated.View style={[styles.sessionPicker, { opacity: backgroundOpacity }]}>
+                    {ambienceOptions.length > 0 && (
+                        <View style={styles.ambienceOptions}>
+                            {[null, ...ambienceOptions].map(entry => {
+                                const id = entry?.id ?? null;
+                                const isSelected = ambienceId === id;
+                                return (
+                                    <TouchableOpacity
+                                        key={id ?? 'none'}
+                                        style={[styles.playbackOption, isSelected && { borderColor: accentColor }]}
+                                        onPress={() => selectAmbience(id)}
+                                        activeOpacity={0.6}
+                                    >
+                                        <Text style={[styles.playbackOptionText, isSelected && { color: accentColor }]}>
+                                            {entry ? entry.title ?? entry.id : 'No ambience'}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                            {ambienceId !== null && (
+                                <TouchableOpacity
+                                    style={[styles.playbackOption, ambienceOnly && { borderColor: accentColor }]}
+                                    onPress={() => setAmbienceOnly(!ambienceOnly)}
+                                    activeOpacity={0.6}
+                                >
+                                    <Text style={[styles.playbackOptionText, ambienceOnly && { color: accentColor }]}>
+                                        {ambienceOnly ? 'Ambience only' : 'With music'}
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    )}
+
+                    <View style={styles.playbackOptions}>
+                        <TouchableOpacity
+                            style={[styles.playbackOption, sessionMode === 'repeat-track' && { borderColor: accentColor }]}
+                            onPress={toggleSessionMode}
+                            activeOpacity={0.6}
+                        >
+                            <Text style={[styles.playbackOptionText, sessionMode === 'repeat-track' && { color: accentColor }]}>
+                                {sessionMode === 'repeat-track' ? 'Repeat track' : 'Keep it flowing'}
+                            </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.playbackOption, backgroundBehavior === 'pause' && { borderColor: accentColor }]}
+                            onPress={toggleBackgroundBehavior}
+                            activeOpacity={0.6}
+                        >
+                            <Text style={[styles.playbackOptionText, backgroundBehavior === 'pause' && { color: accentColor }]}>
+                                {backgroundBehavior === 'pause' ? 'Pause in background' : 'Play in background'}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.sessionOptions}>
+                        {[null, ...SESSION_PRESETS].map(minutes => {
+                            const isSelected = !isCustomLength && sessionMinutes === minutes;
+                            return (
+                                <TouchableOpacity
+                                    key={minutes ?? 'open'}
+                                    style={[styles.sessionOption, isSelected && { borderColor: accentColor }]}
+                                    onPress={() => selectPreset(minutes)}
+                                    activeOpacity={0.6}
+                                >
+                                    <Text style={[styles.sessionOptionText, isSelected && { color: accentColor }]}>
+                                        {minutes === null ? '∞' : `${minutes}`}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                        <TouchableOpacity
+                            style={[styles.sessionOption, isCustomLength && { borderColor: accentColor }]}
+                            onPress={selectCustomLength}
+                            activeOpacity={0.6}
+                        >
+                            <Text style={[styles.sessionOptionText, isCustomLength && { color: accentColor }]}>
+                                …
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    {isCustomLength && (
+                        <View style={styles.customLength}>
+                            <TouchableOpacity onPress={() => adjustCustomLength(-1)} style={styles.customStep}>
+                                <Text style={styles.sessionOptionText}>−</Text>
+                            </TouchableOpacity>
+                            <Text style={[styles.customLengthText, { color: accentColor }]}>
+                                {sessionMinutes} min
+                            </Text>
+                            <TouchableOpacity onPress={() => adjustCustomLength(1)} style={styles.customStep}>
+                                <Text style={styles.sessionOptionText}>+</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                </Animated.View>
+            )}
+
             {/* Dark animated background */}
             <Animated.View style={[styles.darkBackground, { opacity: backgroundOpacity }]} />
             <Animated.View style={[styles.patternBackground, { opacity: backgroundOpacity }]} />
@@ -365,6 +528,75 @@ const styles = StyleSheet.create({
         marginTop: -30,
         zIndex: 100,
     },
+    sessionPicker: {
+        position: 'absolute',
+        bottom: 60,
+        left: 0,
+        right: 0,
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    sessionOptions: {
+        flexDirection: 'row',
+    },
+    playbackOptions: {
+        flexDirection: 'row',
+        marginBottom: 16,
+    },
+    ambienceOptions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        rowGap: 8,
+        marginHorizontal: 16,
+        marginBottom: 16,
+    },
+    playbackOption: {
+        height: 32,
+        paddingHorizontal: 14,
+        marginHorizontal: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.2)',
+        justifyContent: 'center',
+    },
+    playbackOptionText: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 12,
+        fontWeight: '300',
+    },
+    sessionOption: {
+        width: 44,
+        height: 44,
+        marginHorizontal: 6,
+        borderRadius: 22,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.2)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    sessionOptionText: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 16,
+        fontWeight: '300',
+    },
+    customLength: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    customStep: {
+        width: 44,
+        height: 44,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    customLengthText: {
+        fontSize: 16,
+        fontWeight: '300',
+        minWidth: 70,
+        textAlign: 'center',
+    },
     swipeHintArrow: {
         color: 'rgba(255, 255, 255, 0.25)',
         fontSize: 56,
@@ -1,18 +1,48 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, View, TouchableOpacity, Text, Animated } from 'react-native';
+import { StyleSheet, View, TouchableOpacity, Text, Animated, PanResponder, Dimensions } from 'react-native';
 import { MusicServiceManager } from '../services/MusicServiceManager';
 import { HeartbeatVisualizer } from './visualizers/HeartbeatVisualizer';
 import { RippleVisualizer } from './visualizers/RippleVisualizer';
 import { BurstVisualizer } from './visualizers/BurstVisualizer';
 import { CrystalVisualizer } from './visualizers/CrystalVisualizer';
-import { TrackEntry } from '../services/TrackRegistry';
+import { TrackEntry, TrackRegistry } from '../services/TrackRegistry';
+import { formatCategoryLabel } from '../services/MediaSession';
+import { InterruptionReason } from '../services/MusicServiceEvents';
+import { SessionSummary } from '../services/SessionHistory';
+import { IntensityProgram } from '../services/IntensityProgram';
+import { PROGRAM_TICK_MS } from '../services/MusicServiceManager';
+import { BeatClock } from '../services/BeatClock';
+import { EntrainmentSettings } from '../services/EntrainmentLayer';
+import { TrackTransport } from './TrackTransport';
 
 const INTENSITY_THRESHOLD = 0.7;
 
+// Smallest change in animated intensity that re-renders the visualizers.
+// Each change restarts their animation loops, so every frame would be too many.
+const INTENSITY_RENDER_STEP = 0.02;
+
+// How long a fallback notice stays up before fading
+const FALLBACK_NOTICE_MS = 3000;
+
+// Same fallback as the lock screen — untitled tracks go by the energy they were picked for
+const getTrackTitle = (track: TrackEntry, musicService: MusicServiceManager): string => {
+    if (track.title) return track.title;
+    const category = TrackRegistry.getCategoryForTrack(track.id) ?? musicService.getSessionCategory();
+    return category ? formatCategoryLabel(category) : 'EntheosNow';
+};
+
 interface MusicVisualizerProps {
     energyState: 'warm' | 'cool';
     intensityLevel: number;
+    // Null or missing for an open-ended session
+    sessionMinutes?: number | null;
+    // When set, the program drives energy and intensity instead of the spiral
+    program?: IntensityProgram | null;
+    // Plays the chosen ambience bed on its own, with no music
+    ambienceOnly?: boolean;
     onBack?: () => void;
+    // Called once a timed session has run its full length
+    onSessionComplete?: (summary: SessionSummary) => void;
 }
 
 // Resolves which visualizer style to render based on energy state and intensity.
@@ -28,25 +58,140 @@ const resolveVisualizer = (
     }
 };
 
-export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVisualizerProps) => {
+const calculateAngle = (x: number, y: number, centerX: number, centerY: number) => {
+    return Math.atan2(y - centerY, x - centerX);
+};
+
+const getAngleDifference = (angle1: number, angle2: number) => {
+    let diff = angle1 - angle2;
+    if (diff > Math.PI) diff -= 2 * Math.PI;
+    if (diff < -Math.PI) diff += 2 * Math.PI;
+    return diff;
+};
+
+export const MusicVisualizer = ({
+    energyState,
+    intensityLevel,
+    sessionMinutes = null,
+    program = null,
+    ambienceOnly = false,
+    onBack,
+    onSessionComplete,
+}: MusicVisualizerProps) => {
+    const { width, height } = Dimensions.get('window');
+    const CENTER = { x: width / 2, y: height / 2 };
+
     const [isPlaying, setIsPlaying] = useState(false);
     const musicService = useRef(MusicServiceManager.getInstance()).current;
+    // Drives beat-synced pulses for tracks that have analysis
+    const beatClock = useRef(new BeatClock(musicService)).current;
+    // Live loudness from the provider's meter — stays at 0 for providers without one.
+    // Heartbeat and ripple rings run on the native driver, burst and crystal on
+    // the JS driver, and a value can only ever belong to one — so each gets its own.
+    const amplitude = useRef(new Animated.Value(0)).current;
+    const jsAmplitude = useRef(new Animated.Value(0)).current;
+
+    // Live intensity — starts at the confirmed value, retuned by spiral gesture.
+    // The animated value eases toward the target; liveIntensity is what the
+    // visualizers actually render with.
+    const [liveIntensity, setLiveIntensity] = useState(intensityLevel);
+    // Programs can cross between warm and cool mid-session
+    const [liveEnergyState, setLiveEnergyState] = useState(energyState);
+    const targetIntensityRef = useRef(intensityLevel);
+    const intensityAnim = useRef(new Animated.Value(intensityLevel)).current;
+
+    const netRotationRef = useRef(0);
+    const lastAngleRef = useRef<number | null>(null);
+
+    const [entrainment, setEntrainment] = useState<EntrainmentSettings>(musicService.getEntrainment());
 
     const [showTrackInfo, setShowTrackInfo] = useState(false);
     const trackInfoOpacity = useRef(new Animated.Value(0)).current;
-    const [currentTrack, setCurrentTrack] = useState<TrackEntry | null>(null);
+    const [currentTrack, setCurrentTrack] = useState<TrackEntry | null>(
+        musicService.getCurrentTrack()
+    );
+    // Set while a call, unplugged headphones or backgrounding has playback on hold
+    const [interruption, setInterruption] = useState<InterruptionReason | null>(
+        musicService.getInterruption()?.reason ?? null
+    );
+    // Brief, non-interactive notice when a track wouldn't load and another stood in
+    const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+    const fallbackOpacity = useRef(new Animated.Value(0)).current;
+
+    // Subscribed before playback starts so the first track change isn't missed
+    useEffect(() => {
+        const unsubscribers = [
+            musicService.subscribe('trackChanged', ({ track }) => setCurrentTrack(track)),
+            musicService.subscribe('positionUpdate', (update) => {
+                setIsPlaying(update.isPlaying);
+                // Playing again by any route means there's nothing left to resume
+                if (update.isPlaying) setInterruption(null);
+            }),
+            // Set directly — the provider already smooths it
+            musicService.subscribe('amplitude', ({ level }) => {
+                amplitude.setValue(level);
+                jsAmplitude.setValue(level);
+            }),
+            musicService.subscribe('interrupted', ({ reason }) => setInterruption(reason)),
+            musicService.subscribe('resumed', () => setInterruption(null)),
+            musicService.subscribe('trackFallback', ({ failed }) => {
+                setFallbackNotice(failed.title ? `Couldn't play ${failed.title}` : `Couldn't play that track`);
+                fallbackOpacity.stopAnimation();
+                Animated.sequence([
+                    Animated.timing(fallbackOpacity, { toValue: 1, duration: 300, useNativeDriver: true }),
+                    Animated.delay(FALLBACK_NOTICE_MS),
+                    Animated.timing(fallbackOpacity, { toValue: 0, duration: 600, useNativeDriver: true }),
+                ]).start(({ finished }) => {
+                    if (finished) setFallbackNotice(null);
+                });
+            }),
+            // Last stretch of a timed session — let the visuals settle as the music fades
+            musicService.subscribe('sessionEnding', ({ remainingMillis }) => {
+                targetIntensityRef.current = 0;
+                Animated.timing(intensityAnim, {
+                    toValue: 0,
+                    duration: remainingMillis,
+                    useNativeDriver: false,
+                }).start();
+            }),
+            // Eased over one tick so the visuals move continuously between updates
+            musicService.subscribe('programUpdate', (update) => {
+                setLiveEnergyState(update.energyState);
+                targetIntensityRef.current = update.intensity;
+                Animated.timing(intensityAnim, {
+                    toValue: update.intensity,
+                    duration: PROGRAM_TICK_MS,
+                    useNativeDriver: false,
+                }).start();
+            }),
+            musicService.subscribe('sessionEnded', ({ summary }) => {
+                if (summary.completed) onSessionComplete?.(summary);
+            }),
+        ];
+
+        beatClock.start();
+
+        return () => {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            beatClock.stop();
+        };
+    }, []);
 
     useEffect(() => {
         const initMusic = async () => {
             try {
                 await musicService.initializeLocalProvider();
-                await musicService.playForState(energyState, intensityLevel);
-                setIsPlaying(true);
+                const durationMillis = sessionMinutes === null ? null : sessionMinutes * 60 * 1000;
+                if (program) {
+                    await musicService.beginProgram(program);
+                } else if (ambienceOnly) {
+                    await musicService.beginAmbienceSession(energyState, intensityLevel, durationMillis);
+                } else {
+                    await musicService.beginSession(energyState, intensityLevel, durationMillis);
+                }
             } catch (error) {
                 console.error('Failed to initialize music:', error);
             }
-            const track = musicService.getCurrentTrack();
-            setCurrentTrack(track);
         };
 
         initMusic();
@@ -56,6 +201,95 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
         };
     }, []);
 
+    useEffect(() => {
+        const listenerId = intensityAnim.addListener(({ value }) => {
+            setLiveIntensity(previous => {
+                const reachedTarget = value === targetIntensityRef.current;
+                return reachedTarget || Math.abs(value - previous) >= INTENSITY_RENDER_STEP ? value : previous;
+            });
+        });
+
+        return () => {
+            intensityAnim.removeListener(listenerId);
+        };
+    }, []);
+
+    const retuneIntensity = (newIntensity: number) => {
+        targetIntensityRef.current = newIntensity;
+        Animated.timing(intensityAnim, {
+            toValue: newIntensity,
+            duration: 600,
+            useNativeDriver: false,
+        }).start();
+    };
+
+    // Music only follows once the gesture is released — moving tracks mid-spiral
+    // would churn through several crossfades
+    const commitIntensity = async () => {
+        const intensity = targetIntensityRef.current;
+        console.log('Retuned intensity:', intensity.toFixed(2));
+        try {
+            await musicService.retuneIntensity(liveEnergyState, intensity);
+        } catch (error) {
+            console.error('Failed to retune music:', error);
+        }
+    };
+
+    // Same spiral as IntensitySlider, anchored to screen center:
+    // clockwise builds intensity, counter-clockwise unwinds it
+    const panResponder = PanResponder.create({
+        // Track info overlay owns the screen while it's open, and a running
+        // program owns intensity
+        onStartShouldSetPanResponder: () => !showTrackInfo && !program,
+
+        onPanResponderGrant: (evt) => {
+            const { pageX, pageY } = evt.nativeEvent;
+            netRotationRef.current = targetIntensityRef.current * (2 * Math.PI);
+            lastAngleRef.current = calculateAngle(pageX, pageY, CENTER.x, CENTER.y);
+        },
+
+        onPanResponderMove: (evt) => {
+            if (lastAngleRef.current === null) return;
+
+            const { pageX, pageY } = evt.nativeEvent;
+            const currentAngle = calculateAngle(pageX, pageY, CENTER.x, CENTER.y);
+            const angleDiff = getAngleDifference(currentAngle, lastAngleRef.current);
+            const rotationDegrees = Math.abs(angleDiff * 180 / Math.PI);
+
+            if (rotationDegrees > 2) {
+                netRotationRef.current = netRotationRef.current + angleDiff;
+                lastAngleRef.current = currentAngle;
+
+                const newIntensity = Math.max(0, Math.min(1, netRotationRef.current / (2 * Math.PI)));
+                retuneIntensity(newIntensity);
+            }
+        },
+
+        onPanResponderRelease: () => {
+            lastAngleRef.current = null;
+            commitIntensity();
+        },
+    });
+
+    const resumePlayback = async () => {
+        try {
+            await musicService.resumeAfterInterruption();
+        } catch (error) {
+            console.error('Failed to resume music:', error);
+        }
+    };
+
+    // Off → binaural → isochronic → off
+    const cycleEntrainment = () => {
+        const next: Partial<EntrainmentSettings> = !entrainment.enabled
+            ? { enabled: true, mode: 'binaural' }
+            : entrainment.mode === 'binaural'
+                ? { mode: 'isochronic' }
+                : { enabled: false };
+        musicService.setEntrainment(next);
+        setEntrainment(musicService.getEntrainment());
+    };
+
     const toggleTrackInfo = () => {
         if (showTrackInfo) {
             Animated.timing(trackInfoOpacity, {
@@ -74,7 +308,7 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
     };
 
     const getEnergyColors = () => {
-        if (energyState === 'warm') {
+        if (liveEnergyState === 'warm') {
             return {
                 primary: '#FF6B35',
                 secondary: '#FF4500',
@@ -92,7 +326,7 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
     };
 
     const colors = getEnergyColors();
-    const visualizerKey = resolveVisualizer(energyState, intensityLevel);
+    const visualizerKey = resolveVisualizer(liveEnergyState, liveIntensity);
 
     // Renders the correct visualizer component based on the resolved key.
     // Placeholder cases fall back to the base style until high-intensity
@@ -102,31 +336,39 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
             case 'heartbeat':
                 return (
                     <HeartbeatVisualizer
-                        intensityLevel={intensityLevel}
+                        intensityLevel={liveIntensity}
                         colors={colors}
+                        beatClock={beatClock}
+                        amplitude={amplitude}
                     />
                 );
             case 'heartbeat-high':
                 // Placeholder — HeartbeatVisualizer until high intensity warm style is built
                 return (
                     <BurstVisualizer
-                        intensityLevel={intensityLevel}
+                        intensityLevel={liveIntensity}
                         colors={colors}
+                        beatClock={beatClock}
+                        amplitude={jsAmplitude}
                     />
                 );
             case 'ripple':
                 return (
                     <RippleVisualizer
-                        intensityLevel={intensityLevel}
+                        intensityLevel={liveIntensity}
                         colors={colors}
+                        beatClock={beatClock}
+                        amplitude={amplitude}
                     />
                 );
             case 'ripple-high':
                 // Placeholder — RippleVisualizer until high intensity cool style is built
                 return (
                     <CrystalVisualizer
-                        intensityLevel={intensityLevel}
+                        intensityLevel={liveIntensity}
                         colors={colors}
+                        beatClock={beatClock}
+                        amplitude={jsAmplitude}
                     />
                 );
             default:
@@ -134,15 +376,20 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
                 console.warn(`Unknown visualizer key: ${visualizerKey}`);
                 return (
                     <HeartbeatVisualizer
-                        intensityLevel={intensityLevel}
+                        intensityLevel={liveIntensity}
                         colors={colors}
+                        beatClock={beatClock}
+                        amplitude={amplitude}
                     />
                 );
         }
     };
 
     return (
-        <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View
+            style={[styles.container, { backgroundColor: colors.background }]}
+            {...panResponder.panHandlers}
+        >
             {/* Back button */}
             <TouchableOpacity
                 style={styles.backButton}
@@ -156,8 +403,25 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
                 </View>
             </TouchableOpacity>
 
-            {/* Music note icon — only shows if current track has metadata */}
-            {currentTrack?.title && (
+            {/* Entrainment tones — binaural needs headphones, isochronic works anywhere */}
+            <TouchableOpacity
+                style={styles.entrainmentButton}
+                onPress={cycleEntrainment}
+                activeOpacity={0.7}
+            >
+                <Text style={[
+                    styles.entrainmentIcon,
+                    { color: colors.primary, opacity: entrainment.enabled ? 0.8 : 0.3 },
+                ]}>∿</Text>
+                {entrainment.enabled && (
+                    <Text style={[styles.entrainmentLabel, { color: colors.primary }]}>
+                        {entrainment.mode}
+                    </Text>
+                )}
+            </TouchableOpacity>
+
+            {/* Music note icon — opens the player for whatever is playing */}
+            {currentTrack && (
                 <TouchableOpacity
                     style={styles.trackInfoButton}
                     onPress={toggleTrackInfo}
@@ -167,7 +431,28 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
                 </TouchableOpacity>
             )}
 
-            {/* Track info overlay */}
+            {/* Resume prompt — playback was paused by the system, not the user */}
+            {interruption && (
+                <TouchableOpacity
+                    style={[styles.resumeButton, { borderColor: colors.primary }]}
+                    onPress={resumePlayback}
+                    activeOpacity={0.7}
+                >
+                    <Text style={[styles.resumeText, { color: colors.primary }]}>
+                        {interruption === 'route-change' ? 'Audio output changed' : 'Paused'} · Tap to resume
+                    </Text>
+                </TouchableOpacity>
+            )}
+
+            {fallbackNotice && (
+                <Animated.View pointerEvents="none" style={[styles.fallbackNotice, { opacity: fallbackOpacity }]}>
+                    <Text style={[styles.fallbackText, { color: colors.primary }]}>
+                        {fallbackNotice} · Playing something similar
+                    </Text>
+                </Animated.View>
+            )}
+
+            {/* Track info overlay — doubles as a small player */}
             {showTrackInfo && (
                 <Animated.View
                     style={[styles.trackInfoOverlay, { opacity: trackInfoOpacity }]}
@@ -177,9 +462,19 @@ export const MusicVisualizer = ({ energyState, intensityLevel, onBack }: MusicVi
                         onPress={toggleTrackInfo}
                         activeOpacity={1}
                     >
-                        <Text style={styles.trackTitle}>{currentTrack?.title}</Text>
-                        <Text style={styles.trackArtist}>{currentTrack?.artist}</Text>
-                        <Text style={styles.trackLicense}>{currentTrack?.license}</Text>
+                        {currentTrack && (
+                            <Text style={styles.trackTitle}>{getTrackTitle(currentTrack, musicService)}</Text>
+                        )}
+                        {currentTrack?.artist && <Text style={styles.trackArtist}>{currentTrack.artist}</Text>}
+                        {currentTrack?.license && <Text style={styles.trackLicense}>{currentTrack.license}</Text>}
+                        {currentTrack && (
+                            <TrackTransport
+                                musicService={musicService}
+                                track={currentTrack}
+                                isPlaying={isPlaying}
+                                color={colors.primary}
+                            />
+                        )}
                     </TouchableOpacity>
                 </Animated.View>
             )}
@@ -218,6 +513,24 @@ const styles = StyleSheet.create({
         borderTopColor: 'transparent',
         borderBottomColor: 'transparent',
     },
+    entrainmentButton: {
+        position: 'absolute',
+        top: 60,
+        right: 20,
+        minWidth: 44,
+        height: 44,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    entrainmentIcon: {
+        fontSize: 28,
+    },
+    entrainmentLabel: {
+        fontSize: 10,
+        fontWeight: '300',
+        opacity: 0.6,
+    },
     trackInfoButton: {
         position: 'absolute',
         bottom: 100,
@@ -232,6 +545,32 @@ const styles = StyleSheet.create({
         fontSize: 40,
         opacity: 0.6,
     },
+    resumeButton: {
+        position: 'absolute',
+        bottom: 100,
+        alignSelf: 'center',
+        paddingVertical: 10,
+        paddingHorizontal: 20,
+        borderRadius: 22,
+        borderWidth: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000,
+    },
+    resumeText: {
+        fontSize: 14,
+        fontWeight: '300',
+    },
+    fallbackNotice: {
+        position: 'absolute',
+        bottom: 60,
+        alignSelf: 'center',
+        zIndex: 1000,
+    },
+    fallbackText: {
+        fontSize: 12,
+        fontWeight: '300',
+        opacity: 0.7,
+    },
     trackInfoOverlay: {
         position: 'absolute',
         top: 0,
@@ -244,6 +583,7 @@ const styles = StyleSheet.create({
         zIndex: 900,
     },
     trackInfoContent: {
+        alignSelf: 'stretch',
         alignItems: 'center',
         paddingHorizontal: 40,
     },
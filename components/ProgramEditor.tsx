@@ -0,0 +1,222 @@
+// ProgramEditor.tsx
+
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { IntensityProgram, ProgramKeyframe } from '../services/IntensityProgram';
+
+interface ProgramEditorProps {
+    program: IntensityProgram;
+    onSave: (program: IntensityProgram) => Promise<void>;
+    onCancel: () => void;
+}
+
+const MINUTE = 60 * 1000;
+const INTENSITY_STEP = 0.05;
+const MAX_KEYFRAME_MINUTES = 60;
+
+const ENERGY_COLORS = { warm: '#FF6B35', cool: '#4A90E2' };
+
+export const ProgramEditor = ({ program, onSave, onCancel }: ProgramEditorProps) => {
+    const [name, setName] = useState(program.name);
+    const [keyframes, setKeyframes] = useState<ProgramKeyframe[]>(program.keyframes);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateKeyframe = (index: number, changes: Partial<ProgramKeyframe>) => {
+        setKeyframes(previous => previous.map((keyframe, i) => i === index ? { ...keyframe, ...changes } : keyframe));
+    };
+
+    const stepIntensity = (index: number, direction: 1 | -1) => {
+        const current = keyframes[index].intensity;
+        // Rounded so repeated steps don't drift off the 5% grid
+        const next = Math.round((current + direction * INTENSITY_STEP) * 100) / 100;
+        updateKeyframe(index, { intensity: Math.max(0, Math.min(1, next)) });
+    };
+
+    const stepMinutes = (index: number, direction: 1 | -1) => {
+        const minutes = Math.round(keyframes[index].durationMillis / MINUTE) + direction;
+        updateKeyframe(index, { durationMillis: Math.max(1, Math.min(MAX_KEYFRAME_MINUTES, minutes)) * MINUTE });
+    };
+
+    // New keyframes continue from where the last one left off
+    const addKeyframe = () => {
+        const last = keyframes[keyframes.length - 1];
+        setKeyframes(previous => [...previous, {
+            energyState: last?.energyState ?? 'cool',
+            intensity: last?.intensity ?? 0.3,
+            durationMillis: 2 * MINUTE,
+            ramp: true,
+        }]);
+    };
+
+    const removeKeyframe = (index: number) => {
+        setKeyframes(previous => previous.filter((_, i) => i !== index));
+    };
+
+    const save = async () => {
+        try {
+            await onSave({ ...program, name: name.trim(), keyframes });
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : String(saveError));
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <TextInput
+                style={styles.nameInput}
+                value={name}
+                onChangeText={setName}
+                placeholder="Program name"
+                placeholderTextColor="rgba(255, 255, 255, 0.3)"
+            />
+
+            <ScrollView style={styles.keyframeList}>
+                {keyframes.map((keyframe, index) => {
+                    const color = ENERGY_COLORS[keyframe.energyState];
+                    return (
+                        <View key={index} style={[styles.keyframe, { borderLeftColor: color }]}>
+                            <View style={styles.keyframeRow}>
+                                <TouchableOpacity
+                                    onPress={() => updateKeyframe(index, {
+                                        energyState: keyframe.energyState === 'warm' ? 'cool' : 'warm',
+                                    })}
+                                >
+                                    <Text style={[styles.valueText, { color }]}>
+                                        {keyframe.energyState === 'warm' ? 'Warm' : 'Cool'}
+                                    </Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={() => updateKeyframe(index, { ramp: !keyframe.ramp })}>
+                                    <Text style={styles.valueText}>{keyframe.ramp ? 'Ramp to' : 'Hold at'}</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={() => removeKeyframe(index)}>
+                                    <Text style={styles.removeText}>×</Text>
+                                </TouchableOpacity>
+                            </View>
+
+                            <View style={styles.keyframeRow}>
+                                <View style={styles.stepper}>
+                                    <TouchableOpacity onPress={() => stepIntensity(index, -1)} style={styles.stepButton}>
+                                        <Text style={styles.stepText}>−</Text>
+                                    </TouchableOpacity>
+                                    <Text style={styles.valueText}>{Math.round(keyframe.intensity * 100)}%</Text>
+                                    <TouchableOpacity onPress={() => stepIntensity(index, 1)} style={styles.stepButton}>
+                                        <Text style={styles.stepText}>+</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                <View style={styles.stepper}>
+                                    <TouchableOpacity onPress={() => stepMinutes(index, -1)} style={styles.stepButton}>
+                                        <Text style={styles.stepText}>−</Text>
+                                    </TouchableOpacity>
+                                    <Text style={styles.valueText}>
+                                        {Math.round(keyframe.durationMillis / MINUTE)} min
+                                    </Text>
+                                    <TouchableOpacity onPress={() => stepMinutes(index, 1)} style={styles.stepButton}>
+                                        <Text style={styles.stepText}>+</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        </View>
+                    );
+                })}
+
+                <TouchableOpacity style={styles.addButton} onPress={addKeyframe}>
+                    <Text style={styles.valueText}>+ Add keyframe</Text>
+                </TouchableOpacity>
+            </ScrollView>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+
+            <View style={styles.actions}>
+                <TouchableOpacity onPress={onCancel} style={styles.actionButton}>
+                    <Text style={styles.valueText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={save} style={styles.actionButton}>
+                    <Text style={[styles.valueText, styles.saveText]}>Save</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#000000',
+        paddingTop: 80,
+        paddingHorizontal: 24,
+        paddingBottom: 40,
+    },
+    nameInput: {
+        color: 'rgba(255, 255, 255, 0.95)',
+        fontSize: 22,
+        fontWeight: '300',
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.2)',
+        paddingVertical: 8,
+        marginBottom: 24,
+    },
+    keyframeList: {
+        flex: 1,
+    },
+    keyframe: {
+        borderLeftWidth: 3,
+        paddingLeft: 12,
+        paddingVertical: 8,
+        marginBottom: 16,
+    },
+    keyframeRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginVertical: 4,
+    },
+    stepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    stepButton: {
+        width: 36,
+        height: 36,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stepText: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 20,
+        fontWeight: '300',
+    },
+    valueText: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 16,
+        fontWeight: '300',
+    },
+    removeText: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 22,
+        fontWeight: '300',
+        paddingHorizontal: 8,
+    },
+    addButton: {
+        paddingVertical: 12,
+        alignItems: 'center',
+    },
+    errorText: {
+        color: '#FF6B6B',
+        fontSize: 13,
+        fontWeight: '300',
+        marginVertical: 8,
+        textAlign: 'center',
+    },
+    actions: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 16,
+    },
+    actionButton: {
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+    },
+    saveText: {
+        color: 'rgba(255, 255, 255, 0.95)',
+    },
+});
@@ -0,0 +1,178 @@
+// ProgramPicker.tsx
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { IntensityProgram, getProgramDurationMillis } from '../services/IntensityProgram';
+import { ProgramLibrary } from '../services/ProgramLibrary';
+import { ProgramEditor } from './ProgramEditor';
+
+interface ProgramPickerProps {
+    library: ProgramLibrary;
+    onSelectProgram: (program: IntensityProgram) => void;
+    onBack: () => void;
+}
+
+const ENERGY_COLORS = { warm: '#FF6B35', cool: '#4A90E2' };
+
+const describeProgram = (program: IntensityProgram): string => {
+    const minutes = Math.round(getProgramDurationMillis(program) / 60000);
+    const first = program.keyframes[0];
+    const last = program.keyframes[program.keyframes.length - 1];
+    const label = (keyframe: typeof first) =>
+        `${keyframe.energyState === 'warm' ? 'Warm' : 'Cool'} ${Math.round(keyframe.intensity * 100)}%`;
+    return `${minutes} min · ${label(first)} → ${label(last)}`;
+};
+
+const createDraft = (): IntensityProgram => ({
+    id: `user-${Date.now()}`,
+    name: '',
+    keyframes: [{ energyState: 'cool', intensity: 0.2, durationMillis: 3 * 60000, ramp: false }],
+});
+
+export const ProgramPicker = ({ library, onSelectProgram, onBack }: ProgramPickerProps) => {
+    const [programs, setPrograms] = useState<IntensityProgram[]>(library.getPrograms());
+    const [editing, setEditing] = useState<IntensityProgram | null>(null);
+
+    useEffect(() => {
+        library.load().then(() => setPrograms(library.getPrograms()));
+    }, []);
+
+    const saveProgram = async (program: IntensityProgram) => {
+        await library.save(program);
+        setPrograms(library.getPrograms());
+        setEditing(null);
+    };
+
+    const removeProgram = async (program: IntensityProgram) => {
+        await library.remove(program.id);
+        setPrograms(library.getPrograms());
+    };
+
+    if (editing) {
+        return <ProgramEditor program={editing} onSave={saveProgram} onCancel={() => setEditing(null)} />;
+    }
+
+    return (
+        <View style={styles.container}>
+            {/* Back button */}
+            <TouchableOpacity style={styles.backButton} onPress={onBack} activeOpacity={0.6}>
+                <View style={styles.backArrow} />
+            </TouchableOpacity>
+
+            <Text style={styles.heading}>Programs</Text>
+
+            <ScrollView style={styles.list}>
+                {programs.map(program => {
+                    const isBuiltIn = library.isBuiltIn(program.id);
+                    const color = ENERGY_COLORS[program.keyframes[program.keyframes.length - 1].energyState];
+                    return (
+                        <TouchableOpacity
+                            key={program.id}
+                            style={[styles.program, { borderLeftColor: color }]}
+                            onPress={() => onSelectProgram(program)}
+                            activeOpacity={0.7}
+                        >
+                            <View style={styles.programText}>
+                                <Text style={styles.programName}>{program.name}</Text>
+                                <Text style={styles.programDetail}>{describeProgram(program)}</Text>
+                            </View>
+                            {!isBuiltIn && (
+                                <View style={styles.programActions}>
+                                    <TouchableOpacity onPress={() => setEditing(program)}>
+                                        <Text style={styles.actionText}>Edit</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={() => removeProgram(program)}>
+                                        <Text style={styles.actionText}>Delete</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            )}
+                        </TouchableOpacity>
+                    );
+                })}
+            </ScrollView>
+
+            <TouchableOpacity style={styles.newButton} onPress={() => setEditing(createDraft())}>
+                <Text style={styles.newText}>+ New program</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#000000',
+        paddingTop: 120,
+        paddingHorizontal: 24,
+        paddingBottom: 40,
+    },
+    backButton: {
+        position: 'absolute',
+        top: 60,
+        left: 20,
+        width: 44,
+        height: 44,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    backArrow: {
+        width: 0,
+        height: 0,
+        borderTopWidth: 8,
+        borderBottomWidth: 8,
+        borderRightWidth: 12,
+        borderTopColor: 'transparent',
+        borderBottomColor: 'transparent',
+        borderRightColor: 'rgba(255, 255, 255, 0.6)',
+    },
+    heading: {
+        color: 'rgba(255, 255, 255, 0.95)',
+        fontSize: 24,
+        fontWeight: '300',
+        marginBottom: 24,
+    },
+    list: {
+        flex: 1,
+    },
+    program: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderLeftWidth: 3,
+        paddingLeft: 12,
+        paddingVertical: 10,
+        marginBottom: 16,
+    },
+    programText: {
+        flex: 1,
+    },
+    programName: {
+        color: 'rgba(255, 255, 255, 0.9)',
+        fontSize: 18,
+        fontWeight: '300',
+        marginBottom: 4,
+    },
+    programDetail: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 13,
+        fontWeight: '300',
+    },
+    programActions: {
+        alignItems: 'flex-end',
+    },
+    actionText: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 13,
+        fontWeight: '300',
+        paddingVertical: 4,
+    },
+    newButton: {
+        paddingVertical: 14,
+        alignItems: 'center',
+    },
+    newText: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 16,
+        fontWeight: '300',
+    },
+});
@@ -0,0 +1,161 @@
+// SessionSummary.tsx
+
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Animated, ScrollView } from 'react-native';
+import { SessionSummary as SessionSummaryData } from '../services/SessionHistory';
+
+interface SessionSummaryProps {
+    summary: SessionSummaryData;
+    onDone: () => void;
+}
+
+const formatDuration = (millis: number): string => {
+    const totalSeconds = Math.round(millis / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionSummary = ({ summary, onDone }: SessionSummaryProps) => {
+    const fadeIn = useRef(new Animated.Value(0)).current;
+    const accentColor = summary.energyType === 'warm' ? '#FF6B35' : '#4A90E2';
+    const backgroundColor = summary.energyType === 'warm' ? '#1a0600' : '#000615';
+
+    useEffect(() => {
+        Animated.timing(fadeIn, {
+            toValue: 1,
+            duration: 1200,
+            useNativeDriver: true,
+        }).start();
+    }, []);
+
+    return (
+        <View style={[styles.container, { backgroundColor }]}>
+            <Animated.View style={[styles.content, { opacity: fadeIn }]}>
+                <Text style={[styles.heading, { color: accentColor }]}>
+                    {summary.completed ? 'Session complete' : 'Session ended early'}
+                </Text>
+                {summary.programName && (
+                    <Text style={styles.programName}>{summary.programName}</Text>
+                )}
+
+                <View style={styles.stats}>
+                    <View style={styles.stat}>
+                        <Text style={styles.statValue}>
+                            {summary.energyType === 'warm' ? 'Warm' : 'Cool'}
+                        </Text>
+                        <Text style={styles.statLabel}>Energy</Text>
+                    </View>
+                    <View style={styles.stat}>
+                        <Text style={styles.statValue}>{Math.round(summary.intensity * 100)}%</Text>
+                        <Text style={styles.statLabel}>Intensity</Text>
+                    </View>
+                    <View style={styles.stat}>
+                        <Text style={styles.statValue}>{formatDuration(summary.elapsedMillis)}</Text>
+                        <Text style={styles.statLabel}>Duration</Text>
+                    </View>
+                </View>
+
+                <Text style={styles.sectionLabel}>
+                    {summary.tracks.length === 1 ? '1 track' : `${summary.tracks.length} tracks`}
+                </Text>
+                <ScrollView style={styles.trackList}>
+                    {summary.tracks.map((track, index) => (
+                        <View key={`${track.id}-${index}`} style={styles.trackRow}>
+                            <Text style={styles.trackTitle}>{track.title ?? 'Untitled track'}</Text>
+                            {track.artist && <Text style={styles.trackArtist}>{track.artist}</Text>}
+                        </View>
+                    ))}
+                </ScrollView>
+
+                <TouchableOpacity
+                    style={[styles.doneButton, { borderColor: accentColor }]}
+                    onPress={onDone}
+                    activeOpacity={0.7}
+                >
+                    <Text style={[styles.doneText, { color: accentColor }]}>Done</Text>
+                </TouchableOpacity>
+            </Animated.View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        paddingTop: 100,
+        paddingHorizontal: 40,
+        paddingBottom: 60,
+        alignItems: 'center',
+    },
+    heading: {
+        fontSize: 24,
+        fontWeight: '300',
+        marginBottom: 40,
+    },
+    programName: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 16,
+        fontWeight: '300',
+        marginTop: -28,
+        marginBottom: 40,
+    },
+    stats: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignSelf: 'stretch',
+        marginBottom: 40,
+    },
+    stat: {
+        alignItems: 'center',
+    },
+    statValue: {
+        color: 'rgba(255, 255, 255, 0.95)',
+        fontSize: 20,
+        fontWeight: '300',
+        marginBottom: 4,
+    },
+    statLabel: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 12,
+        fontWeight: '300',
+    },
+    sectionLabel: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 12,
+        fontWeight: '300',
+        alignSelf: 'flex-start',
+        marginBottom: 12,
+    },
+    trackList: {
+        flex: 1,
+        alignSelf: 'stretch',
+    },
+    trackRow: {
+        marginBottom: 12,
+    },
+    trackTitle: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 16,
+        fontWeight: '300',
+    },
+    trackArtist: {
+        color: 'rgba(255, 255, 255, 0.5)',
+        fontSize: 13,
+        fontWeight: '300',
+    },
+    doneButton: {
+        marginTop: 24,
+        paddingVertical: 12,
+        paddingHorizontal: 40,
+        borderRadius: 24,
+        borderWidth: 1,
+    },
+    doneText: {
+        fontSize: 16,
+        fontWeight: '300',
+    },
+});
@@ -0,0 +1,200 @@
+// TrackTransport.tsx
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import { MusicServiceManager } from '../services/MusicServiceManager';
+import { TrackEntry } from '../services/TrackRegistry';
+
+interface TrackTransportProps {
+    musicService: MusicServiceManager;
+    track: TrackEntry;
+    isPlaying: boolean;
+    color: string;
+}
+
+// Position updates arrive many times a second — the bar only needs a few
+const PROGRESS_STEP_MS = 250;
+
+// Each tap of − or + moves the master volume by this much
+const VOLUME_STEP = 0.1;
+
+const formatTime = (millis: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(millis / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const TrackTransport = ({ musicService, track, isPlaying, color }: TrackTransportProps) => {
+    const [positionMillis, setPositionMillis] = useState(musicService.getPositionMillis());
+    const [durationMillis, setDurationMillis] = useState(musicService.getDurationMillis());
+    const [liked, setLiked] = useState(musicService.getTrackPreference(track.id).favorite);
+    const [volume, setVolume] = useState(musicService.getMasterVolume());
+
+    // Only subscribed while the overlay is open, so the visualizer isn't re-rendered for it
+    useEffect(() => {
+        return musicService.subscribe('positionUpdate', (update) => {
+            setPositionMillis(Math.floor(update.positionMillis / PROGRESS_STEP_MS) * PROGRESS_STEP_MS);
+            setDurationMillis(update.durationMillis);
+        });
+    }, []);
+
+    useEffect(() => {
+        setLiked(musicService.getTrackPreference(track.id).favorite);
+    }, [track.id]);
+
+    const run = (action: string, operation: () => Promise<void>) => {
+        operation().catch(error => console.error(`Failed to ${action}:`, error));
+    };
+
+    const togglePlayback = () => {
+        if (isPlaying) run('pause', () => musicService.pause());
+        else run('resume', () => musicService.resume());
+    };
+
+    const toggleLike = () => {
+        musicService.setTrackFavorite(track.id, !liked);
+        setLiked(!liked);
+    };
+
+    const changeVolume = (direction: 1 | -1) => {
+        // Rounded so repeated steps land back on whole tenths
+        const next = Math.max(0, Math.min(1, Math.round((volume + direction * VOLUME_STEP) * 10) / 10));
+        setVolume(next);
+        run('set volume', () => musicService.setMasterVolume(next));
+    };
+
+    const progress = durationMillis ? Math.min(1, positionMillis / durationMillis) : 0;
+
+    return (
+        // Claims touches so taps between the controls don't close the overlay
+        <View style={styles.container} onStartShouldSetResponder={() => true}>
+            {durationMillis !== null && (
+                <View style={styles.progress}>
+                    <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: color }]} />
+                    </View>
+                    <View style={styles.times}>
+                        <Text style={styles.time}>{formatTime(positionMillis)}</Text>
+                        <Text style={styles.time}>-{formatTime(durationMillis - positionMillis)}</Text>
+                    </View>
+                </View>
+            )}
+
+            <View style={styles.controls}>
+                <TouchableOpacity style={styles.control} onPress={toggleLike} activeOpacity={0.6}>
+                    <Text style={[styles.secondaryIcon, { color, opacity: liked ? 0.9 : 0.4 }]}>
+                        {liked ? '♥' : '♡'}
+                    </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.playButton, { borderColor: color }]}
+                    onPress={togglePlayback}
+                    activeOpacity={0.6}
+                >
+                    <Text style={[styles.playIcon, { color }]}>{isPlaying ? '❙❙' : '▶'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.control}
+                    onPress={() => run('skip', () => musicService.skip())}
+                    activeOpacity={0.6}
+                >
+                    <Text style={[styles.primaryIcon, { color }]}>⏭</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.control}
+                    onPress={() => run('ban track', () => musicService.banTrack(track.id))}
+                    activeOpacity={0.6}
+                >
+                    <Text style={[styles.secondaryIcon, { color, opacity: 0.4 }]}>⊘</Text>
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.volume}>
+                <TouchableOpacity style={styles.control} onPress={() => changeVolume(-1)} activeOpacity={0.6}>
+                    <Text style={[styles.secondaryIcon, { color, opacity: volume > 0 ? 0.6 : 0.2 }]}>−</Text>
+                </TouchableOpacity>
+                <View style={styles.volumeTrack}>
+                    <View style={[styles.progressFill, { width: `${volume * 100}%`, backgroundColor: color }]} />
+                </View>
+                <TouchableOpacity style={styles.control} onPress={() => changeVolume(1)} activeOpacity={0.6}>
+                    <Text style={[styles.secondaryIcon, { color, opacity: volume < 1 ? 0.6 : 0.2 }]}>+</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        alignSelf: 'stretch',
+        marginTop: 32,
+    },
+    progress: {
+        marginBottom: 24,
+    },
+    progressTrack: {
+        height: 2,
+        borderRadius: 1,
+        backgroundColor: 'rgba(255, 255, 255, 0.15)',
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: 2,
+    },
+    times: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 8,
+    },
+    time: {
+        color: 'rgba(255, 255, 255, 0.4)',
+        fontSize: 12,
+        fontWeight: '300',
+        fontVariant: ['tabular-nums'],
+    },
+    controls: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    volume: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: 16,
+    },
+    volumeTrack: {
+        flex: 1,
+        height: 2,
+        borderRadius: 1,
+        marginHorizontal: 8,
+        backgroundColor: 'rgba(255, 255, 255, 0.15)',
+        overflow: 'hidden',
+    },
+    control: {
+        width: 44,
+        height: 44,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    playButton: {
+        width: 56,
+        height: 56,
+        borderRadius: 28,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    playIcon: {
+        fontSize: 18,
+        fontWeight: '300',
+    },
+    primaryIcon: {
+        fontSize: 20,
+        fontWeight: '300',
+    },
+    secondaryIcon: {
+        fontSize: 18,
+        fontWeight: '300',
+    },
+});
@@ -1,5 +1,8 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Animated, StyleSheet, Dimensions } from 'react-native';
+import { BeatClock } from '../../services/BeatClock';
+import { RingBeat, subscribeRingBeat, useBeatSync } from './useBeatSync';
+import { modulateBorderWidth, modulateOpacity, modulateScale } from './ringAmplitude';
 
 interface BurstVisualizerProps {
     intensityLevel: number;
@@ -9,6 +12,10 @@ interface BurstVisualizerProps {
         accent: string;
         background: string;
     };
+    // Rings spawn on the track's beats when the clock has analysis for it
+    beatClock?: BeatClock | null;
+    // Live loudness, 0–1 — rings swell with it on top of their intensity baseline
+    amplitude?: Animated.Value | null;
 }
 
 // Number of rings in the burst cycle
@@ -29,6 +36,8 @@ const BurstRing = ({
     centerY,
     colors,
     borderWidth,
+    beat,
+    amplitude,
 }: {
     config: RingConfig;
     delay: number;
@@ -38,6 +47,8 @@ const BurstRing = ({
     centerY: number;
     colors: { primary: string; secondary: string; accent: string; background: string };
     borderWidth: number;
+    beat: RingBeat | null;
+    amplitude: Animated.Value | null;
 }) => {
     const scale = useRef(new Animated.Value(0)).current;
     const opacity = useRef(new Animated.Value(0)).current;
@@ -49,33 +60,50 @@ const BurstRing = ({
     const ringRadius = maxRadius * config.radiusMultiplier;
 
     useEffect(() => {
+        const pulse = (peakOpacity: number) => Animated.parallel([
+            Animated.timing(scale, {
+                toValue: 1,
+                duration,
+                useNativeDriver: false,
+            }),
+            Animated.sequence([
+                // Flash in very quickly — burst energy
+                Animated.timing(opacity, {
+                    toValue: peakOpacity,
+                    duration: duration * 0.05,
+                    useNativeDriver: false,
+                }),
+                // Fade out as it expands
+                Animated.timing(opacity, {
+                    toValue: 0,
+                    duration: duration * 0.95,
+                    useNativeDriver: false,
+                }),
+            ]),
+        ]);
+
+        // Synced — spawn on this ring's beats, brighter on louder ones
+        if (beat) {
+            const unsubscribe = subscribeRingBeat(beat, (strength) => {
+                scale.setValue(0);
+                opacity.setValue(0);
+                pulse(0.9 * (0.5 + strength * 0.5)).start();
+            });
+
+            return () => {
+                unsubscribe();
+                scale.stopAnimation();
+                opacity.stopAnimation();
+            };
+        }
+
         const animate = () => {
             scale.setValue(0);
             opacity.setValue(0);
 
             Animated.sequence([
                 Animated.delay(delay),
-                Animated.parallel([
-                    Animated.timing(scale, {
-                        toValue: 1,
-                        duration,
-                        useNativeDriver: false,
-                    }),
-                    Animated.sequence([
-                        // Flash in very quickly — burst energy
-                        Animated.timing(opacity, {
-                            toValue: 0.9,
-                            duration: duration * 0.05,
-                            useNativeDriver: false,
-                        }),
-                        // Fade out as it expands
-                        Animated.timing(opacity, {
-                            toValue: 0,
-                            duration: duration * 0.95,
-                            useNativeDriver: false,
-                        }),
-                    ]),
-                ]),
+                pulse(0.9),
             ]).start(() => animate());
         };
 
@@ -85,7 +113,7 @@ const BurstRing = ({
             scale.stopAnimation();
             opacity.stopAnimation();
         };
-    }, [duration, delay, ringRadius]);
+    }, [duration, delay, ringRadius, beat?.clock, beat?.every, beat?.offset, amplitude]);
 
     return (
         <Animated.View
@@ -96,18 +124,42 @@ const BurstRing = ({
                     height: ringRadius * 2,
                     borderRadius: ringRadius,
                     borderColor: color,
-                    borderWidth,
+                    borderWidth: modulateBorderWidth(borderWidth, amplitude),
                     left: centerX - ringRadius,
                     top: centerY - ringRadius,
-                    opacity,
-                    transform: [{ scale }],
+                    opacity: modulateOpacity(opacity, amplitude),
+                    transform: [{ scale: modulateScale(scale, amplitude) }],
                 },
             ]}
         />
     );
 };
 
-export const BurstVisualizer = ({ intensityLevel, colors }: BurstVisualizerProps) => {
+export const BurstVisualizer = ({ intensityLevel, colors, beatClock, amplitude = null }: BurstVisualizerProps) => {
+    const beatSynced = useBeatSync(beatClock);
+    // Null while unsynced, which puts rings back on their own loop
+    const beatFor = (every: number, offset: number): RingBeat | null =>
+        beatSynced && beatClock ? { clock: beatClock, every, offset } : null;
+    const coreScale = useRef(new Animated.Value(1)).current;
+
+    // Core kicks on every beat
+    useEffect(() => {
+        if (!beatSynced || !beatClock) return;
+        return beatClock.onBeat(({ strength }) => {
+            Animated.sequence([
+                Animated.timing(coreScale, {
+                    toValue: 1.2 + strength * 0.3,
+                    duration: 60,
+                    useNativeDriver: false,
+                }),
+                Animated.timing(coreScale, {
+                    toValue: 1,
+                    duration: 240,
+                    useNativeDriver: false,
+                }),
+            ]).start();
+        });
+    }, [beatSynced, beatClock]);
     const { width, height } = Dimensions.get('window');
     const CENTER_X = width / 2;
     const CENTER_Y = height / 2;
@@ -152,6 +204,7 @@ export const BurstVisualizer = ({ intensityLevel, colors }: BurstVisualizerProps
                         top: CENTER_Y - 30,
                         // Core fully bright at high intensity
                         opacity: 0.7 + (intensityLevel * 0.3),
+                        transform: [{ scale: coreScale }],
                     },
                 ]}
             />
@@ -168,6 +221,8 @@ export const BurstVisualizer = ({ intensityLevel, colors }: BurstVisualizerProps
                     centerY={CENTER_Y}
                     colors={colors}
                     borderWidth={ringBorderWidth}
+                    beat={beatFor(RING_COUNT, index)}
+                    amplitude={amplitude}
                 />
             ))}
         </View>
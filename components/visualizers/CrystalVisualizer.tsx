@@ -1,5 +1,8 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Animated, StyleSheet, Dimensions } from 'react-native';
+import { BeatClock } from '../../services/BeatClock';
+import { RingBeat, subscribeRingBeat, useBeatSync } from './useBeatSync';
+import { modulateBorderWidth, modulateOpacity, modulateScale } from './ringAmplitude';
 
 interface CrystalVisualizerProps {
     intensityLevel: number;
@@ -9,6 +12,10 @@ interface CrystalVisualizerProps {
         accent: string;
         background: string;
     };
+    // Rings spawn on the track's beats when the clock has analysis for it
+    beatClock?: BeatClock | null;
+    // Live loudness, 0–1 — rings swell with it on top of their intensity baseline
+    amplitude?: Animated.Value | null;
 }
 
 const PARTICLE_COUNT = 8;
@@ -31,6 +38,8 @@ const CrystalRing = ({
     centerX,
     centerY,
     borderWidth,
+    beat,
+    amplitude,
 }: {
     color: string;
     delay: number;
@@ -39,36 +48,55 @@ const CrystalRing = ({
     centerX: number;
     centerY: number;
     borderWidth: number;
+    beat: RingBeat | null;
+    amplitude: Animated.Value | null;
 }) => {
     const scale = useRef(new Animated.Value(0)).current;
     const opacity = useRef(new Animated.Value(0)).current;
 
     useEffect(() => {
+        const pulse = (peakOpacity: number) => Animated.parallel([
+            Animated.timing(scale, {
+                toValue: 1,
+                duration,
+                useNativeDriver: false,
+            }),
+            Animated.sequence([
+                Animated.timing(opacity, {
+                    toValue: peakOpacity,
+                    duration: duration * 0.05,
+                    useNativeDriver: false,
+                }),
+                Animated.timing(opacity, {
+                    toValue: 0,
+                    duration: duration * 0.95,
+                    useNativeDriver: false,
+                }),
+            ]),
+        ]);
+
+        // Synced — spawn on this ring's beats, brighter on louder ones
+        if (beat) {
+            const unsubscribe = subscribeRingBeat(beat, (strength) => {
+                scale.setValue(0);
+                opacity.setValue(0);
+                pulse(0.7 * (0.5 + strength * 0.5)).start();
+            });
+
+            return () => {
+                unsubscribe();
+                scale.stopAnimation();
+                opacity.stopAnimation();
+            };
+        }
+
         const animate = () => {
             scale.setValue(0);
             opacity.setValue(0);
 
             Animated.sequence([
                 Animated.delay(delay),
-                Animated.parallel([
-                    Animated.timing(scale, {
-                        toValue: 1,
-                        duration,
-                        useNativeDriver: false,
-                    }),
-                    Animated.sequence([
-                        Animated.timing(opacity, {
-                            toValue: 0.7,
-                            duration: duration * 0.05,
-                            useNativeDriver: false,
-                        }),
-                        Animated.timing(opacity, {
-                            toValue: 0,
-                            duration: duration * 0.95,
-                            useNativeDriver: false,
-                        }),
-                    ]),
-                ]),
+                pulse(0.7),
             ]).start(() => animate());
         };
 
@@ -78,7 +106,7 @@ const CrystalRing = ({
             scale.stopAnimation();
             opacity.stopAnimation();
         };
-    }, [duration, delay, maxRadius]);
+    }, [duration, delay, maxRadius, beat?.clock, beat?.every, beat?.offset, amplitude]);
 
     return (
         <Animated.View
@@ -89,11 +117,11 @@ const CrystalRing = ({
                     height: maxRadius * 2,
                     borderRadius: maxRadius,
                     borderColor: color,
-                    borderWidth,
+                    borderWidth: modulateBorderWidth(borderWidth, amplitude),
                     left: centerX - maxRadius,
                     top: centerY - maxRadius,
-                    opacity,
-                    transform: [{ scale }],
+                    opacity: modulateOpacity(opacity, amplitude),
+                    transform: [{ scale: modulateScale(scale, amplitude) }],
                 },
             ]}
         />
@@ -220,7 +248,11 @@ const DriftingShape = ({
     );
 };
 
-export const CrystalVisualizer = ({ intensityLevel, colors }: CrystalVisualizerProps) => {
+export const CrystalVisualizer = ({ intensityLevel, colors, beatClock, amplitude = null }: CrystalVisualizerProps) => {
+    const beatSynced = useBeatSync(beatClock);
+    // Null while unsynced, which puts rings back on their own loop
+    const beatFor = (every: number, offset: number): RingBeat | null =>
+        beatSynced && beatClock ? { clock: beatClock, every, offset } : null;
     const { width, height } = Dimensions.get('window');
     const CENTER_X = width / 2;
     const CENTER_Y = height / 2;
@@ -270,6 +302,8 @@ export const CrystalVisualizer = ({ intensityLevel, colors }: CrystalVisualizerP
                     centerX={CENTER_X}
                     centerY={CENTER_Y}
                     borderWidth={ringBorderWidth}
+                    beat={beatFor(ringCount, index)}
+                    amplitude={amplitude}
                 />
             ))}
 
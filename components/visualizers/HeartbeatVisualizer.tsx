@@ -1,5 +1,9 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Animated, StyleSheet, Dimensions } from 'react-native';
+import { BeatClock } from '../../services/BeatClock';
+import { RingBeat, subscribeRingBeat, useBeatSync, useTempo } from './useBeatSync';
+import { getHeartbeatCycle, getMillisToNextCycle } from '../../services/Tempo';
+import { modulateOpacity, modulateScale } from './ringAmplitude';
 
 interface HeartbeatVisualizerProps {
     intensityLevel: number; // 0 to 1
@@ -9,6 +13,19 @@ interface HeartbeatVisualizerProps {
         accent: string;
         background: string;
     };
+    // Locks the heartbeat to the track's tempo when it's known, and to its
+    // analysed beats when there are any
+    beatClock?: BeatClock | null;
+    // Live loudness, 0–1 — rings swell with it on top of their intensity baseline
+    amplitude?: Animated.Value | null;
+}
+
+// A track's beat grid, for rings that loop in time with it
+interface TempoGrid {
+    clock: BeatClock;
+    trackId: string;
+    cycleMillis: number;
+    offsetMillis: number;
 }
 
 // One ring's full lifecycle — expand and fade
@@ -19,6 +36,9 @@ const HeartbeatRing = ({
     maxRadius,
     centerX,
     centerY,
+    beat,
+    grid,
+    amplitude,
 }: {
     color: string;
     delay: number;
@@ -26,41 +46,71 @@ const HeartbeatRing = ({
     maxRadius: number;
     centerX: number;
     centerY: number;
+    beat: RingBeat | null;
+    grid: TempoGrid | null;
+    amplitude: Animated.Value | null;
 }) => {
     const scale = useRef(new Animated.Value(0)).current;
     const opacity = useRef(new Animated.Value(0)).current;
 
     useEffect(() => {
+        // Expand and fade simultaneously
+        const pulse = (peakOpacity: number) => Animated.parallel([
+            Animated.timing(scale, {
+                toValue: 1,
+                duration,
+                useNativeDriver: true,
+            }),
+            Animated.sequence([
+                // Appear quickly
+                Animated.timing(opacity, {
+                    toValue: peakOpacity,
+                    duration: duration * 0.1,
+                    useNativeDriver: true,
+                }),
+                // Then fade as ring expands outward
+                Animated.timing(opacity, {
+                    toValue: 0,
+                    duration: duration * 0.9,
+                    useNativeDriver: true,
+                }),
+            ]),
+        ]);
+
+        // Synced — one ring per heartbeat's worth of beats, still offset by our
+        // place in the lub-dub. Louder beats flash brighter.
+        if (beat) {
+            const unsubscribe = subscribeRingBeat(beat, (strength) => {
+                scale.setValue(0);
+                opacity.setValue(0);
+                Animated.sequence([
+                    Animated.delay(delay),
+                    pulse(0.4 + strength * 0.4),
+                ]).start();
+            });
+
+            return () => {
+                unsubscribe();
+                scale.stopAnimation();
+                opacity.stopAnimation();
+            };
+        }
+
         const animate = () => {
             // Reset before each beat
             scale.setValue(0);
             opacity.setValue(0);
 
+            // Tempo-locked rings wait for their next slot on the track's beat grid,
+            // so every cycle re-aligns with playback instead of drifting
+            const wait = grid
+                ? getMillisToNextCycle(grid.clock.getPositionMillis(), grid.cycleMillis, grid.offsetMillis + delay)
+                : delay;
+
             Animated.sequence([
                 // Wait for our place in the beat pattern
-                Animated.delay(delay),
-                // Expand and fade simultaneously
-                Animated.parallel([
-                    Animated.timing(scale, {
-                        toValue: 1,
-                        duration,
-                        useNativeDriver: true,
-                    }),
-                    Animated.sequence([
-                        // Appear quickly
-                        Animated.timing(opacity, {
-                            toValue: 0.8,
-                            duration: duration * 0.1,
-                            useNativeDriver: true,
-                        }),
-                        // Then fade as ring expands outward
-                        Animated.timing(opacity, {
-                            toValue: 0,
-                            duration: duration * 0.9,
-                            useNativeDriver: true,
-                        }),
-                    ]),
-                ]),
+                Animated.delay(wait),
+                pulse(0.8),
             ]).start(() => animate()); // Loop by calling itself
         };
 
@@ -70,7 +120,11 @@ const HeartbeatRing = ({
             scale.stopAnimation();
             opacity.stopAnimation();
         };
-    }, [duration, delay, maxRadius]);
+    }, [
+        duration, delay, maxRadius, amplitude,
+        beat?.clock, beat?.every, beat?.offset,
+        grid?.clock, grid?.trackId, grid?.cycleMillis, grid?.offsetMillis,
+    ]);
 
     return (
         <Animated.View
@@ -83,23 +137,62 @@ const HeartbeatRing = ({
                     borderColor: color,
                     left: centerX - maxRadius,
                     top: centerY - maxRadius,
-                    opacity,
-                    transform: [{ scale }],
+                    opacity: modulateOpacity(opacity, amplitude),
+                    transform: [{ scale: modulateScale(scale, amplitude) }],
                 },
             ]}
         />
     );
 };
 
-export const HeartbeatVisualizer = ({ intensityLevel, colors }: HeartbeatVisualizerProps) => {
+export const HeartbeatVisualizer = ({ intensityLevel, colors, beatClock, amplitude = null }: HeartbeatVisualizerProps) => {
     const { width, height } = Dimensions.get('window');
     const CENTER_X = width / 2;
     const CENTER_Y = height / 2;
 
-    // Intensity drives beat rate. Higher intensity = faster heartbeat.
+    const beatSynced = useBeatSync(beatClock);
+    const syncedClock = beatSynced ? beatClock ?? null : null;
+    const coreScale = useRef(new Animated.Value(1)).current;
+
+    // Core swells on each beat, harder on louder ones
+    useEffect(() => {
+        if (!syncedClock) return;
+        return syncedClock.onBeat(({ strength }) => {
+            Animated.sequence([
+                Animated.timing(coreScale, {
+                    toValue: 1.15 + strength * 0.25,
+                    duration: 80,
+                    useNativeDriver: true,
+                }),
+                Animated.timing(coreScale, {
+                    toValue: 1,
+                    duration: 320,
+                    useNativeDriver: true,
+                }),
+            ]).start();
+        });
+    }, [syncedClock]);
+
+    // The track's tempo sets the beat rate when it's known
+    const tempo = useTempo(beatClock);
+    const heartbeat = tempo ? getHeartbeatCycle(tempo.bpm) : null;
+
+    // Otherwise intensity drives it. Higher intensity = faster heartbeat.
     const baseDuration = 1200; // ms for one ring to fully expand at zero intensity
     const minDuration = 400;   // fastest it can go at full intensity
-    const ringDuration = Math.max(minDuration, baseDuration - (intensityLevel * (baseDuration - minDuration)));
+    const ringDuration = heartbeat
+        ? heartbeat.cycleMillis
+        : Math.max(minDuration, baseDuration - (intensityLevel * (baseDuration - minDuration)));
+
+    // Analysed beats drive the rings directly, one heartbeat per beatsPerCycle
+    // beats. Double time falls between beats, so it runs on the grid instead.
+    const beatsPerCycle = heartbeat?.beatsPerCycle ?? 1;
+    const ringBeat: RingBeat | null = syncedClock && beatsPerCycle >= 1
+        ? { clock: syncedClock, every: beatsPerCycle, offset: 0 }
+        : null;
+    const grid: TempoGrid | null = !ringBeat && beatClock && tempo && heartbeat
+        ? { clock: beatClock, trackId: tempo.trackId, cycleMillis: heartbeat.cycleMillis, offsetMillis: tempo.offsetMillis }
+        : null;
 
     // Lub-dub: two beats close together, then a pause
     // Delay pattern mimics the double-beat of a real heartbeat
@@ -122,6 +215,7 @@ export const HeartbeatVisualizer = ({ intensityLevel, colors }: HeartbeatVisuali
                         top: CENTER_Y - 20,
                         // Core brightens with intensity
                         opacity: 0.6 + (intensityLevel * 0.4),
+                        transform: [{ scale: coreScale }],
                     },
                 ]}
             />
@@ -134,6 +228,9 @@ export const HeartbeatVisualizer = ({ intensityLevel, colors }: HeartbeatVisuali
                 maxRadius={maxRadius}
                 centerX={CENTER_X}
                 centerY={CENTER_Y}
+                beat={ringBeat}
+                grid={grid}
+                amplitude={amplitude}
             />
 
             {/* Dub ring — second beat, slightly smaller */}
@@ -144,6 +241,9 @@ export const HeartbeatVisualizer = ({ intensityLevel, colors }: HeartbeatVisuali
                 maxRadius={maxRadius * 0.75}
                 centerX={CENTER_X}
                 centerY={CENTER_Y}
+                beat={ringBeat}
+                grid={grid}
+                amplitude={amplitude}
             />
 
             {/* Accent ring — subtle third layer for depth */}
@@ -154,6 +254,9 @@ export const HeartbeatVisualizer = ({ intensityLevel, colors }: HeartbeatVisuali
                 maxRadius={maxRadius * 0.5}
                 centerX={CENTER_X}
                 centerY={CENTER_Y}
+                beat={ringBeat}
+                grid={grid}
+                amplitude={amplitude}
             />
         </View>
     );
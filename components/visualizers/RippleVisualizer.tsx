@@ -1,5 +1,8 @@
 import React, { useEffect, useRef } from 'react';
 import { View, Animated, StyleSheet, Dimensions } from 'react-native';
+import { BeatClock } from '../../services/BeatClock';
+import { RingBeat, subscribeRingBeat, useBeatSync } from './useBeatSync';
+import { modulateOpacity, modulateScale } from './ringAmplitude';
 
 interface RippleVisualizerProps {
     intensityLevel: number; // 0 to 1
@@ -9,6 +12,10 @@ interface RippleVisualizerProps {
         accent: string;
         background: string;
     };
+    // Rings spawn on the track's beats when the clock has analysis for it
+    beatClock?: BeatClock | null;
+    // Live loudness, 0–1 — rings swell with it on top of their intensity baseline
+    amplitude?: Animated.Value | null;
 }
 
 // One ripple's full lifecycle — spawn at center, expand outward, fade to nothing
@@ -20,6 +27,8 @@ const RippleRing = ({
     centerX,
     centerY,
     borderWidth,
+    beat,
+    amplitude,
 }: {
     color: string;
     delay: number;
@@ -28,39 +37,58 @@ const RippleRing = ({
     centerX: number;
     centerY: number;
     borderWidth: number;
+    beat: RingBeat | null;
+    amplitude: Animated.Value | null;
 }) => {
     const scale = useRef(new Animated.Value(0)).current;
     const opacity = useRef(new Animated.Value(0)).current;
 
     useEffect(() => {
+        const pulse = (peakOpacity: number) => Animated.parallel([
+            // Ring expands steadily outward
+            Animated.timing(scale, {
+                toValue: 1,
+                duration,
+                useNativeDriver: true,
+            }),
+            Animated.sequence([
+                // Appear at full opacity immediately
+                Animated.timing(opacity, {
+                    toValue: peakOpacity,
+                    duration: duration * 0.05,
+                    useNativeDriver: true,
+                }),
+                // Fade linearly as it travels — water ripple dissipates evenly
+                Animated.timing(opacity, {
+                    toValue: 0,
+                    duration: duration * 0.95,
+                    useNativeDriver: true,
+                }),
+            ]),
+        ]);
+
+        // Synced — spawn on this ring's beats, brighter on louder ones
+        if (beat) {
+            const unsubscribe = subscribeRingBeat(beat, (strength) => {
+                scale.setValue(0);
+                opacity.setValue(0);
+                pulse(0.7 * (0.5 + strength * 0.5)).start();
+            });
+
+            return () => {
+                unsubscribe();
+                scale.stopAnimation();
+                opacity.stopAnimation();
+            };
+        }
+
         const animate = () => {
             scale.setValue(0);
             opacity.setValue(0);
 
             Animated.sequence([
                 Animated.delay(delay),
-                Animated.parallel([
-                    // Ring expands steadily outward
-                    Animated.timing(scale, {
-                        toValue: 1,
-                        duration,
-                        useNativeDriver: true,
-                    }),
-                    Animated.sequence([
-                        // Appear at full opacity immediately
-                        Animated.timing(opacity, {
-                            toValue: 0.7,
-                            duration: duration * 0.05,
-                            useNativeDriver: true,
-                        }),
-                        // Fade linearly as it travels — water ripple dissipates evenly
-                        Animated.timing(opacity, {
-                            toValue: 0,
-                            duration: duration * 0.95,
-                            useNativeDriver: true,
-                        }),
-                    ]),
-                ]),
+                pulse(0.7),
             ]).start(() => animate());
         };
 
@@ -70,7 +98,7 @@ const RippleRing = ({
             scale.stopAnimation();
             opacity.stopAnimation();
         };
-    }, [duration, delay, maxRadius]);
+    }, [duration, delay, maxRadius, beat?.clock, beat?.every, beat?.offset, amplitude]);
 
     return (
         <Animated.View
@@ -84,15 +112,19 @@ const RippleRing = ({
                     borderWidth,
                     left: centerX - maxRadius,
                     top: centerY - maxRadius,
-                    opacity,
-                    transform: [{ scale }],
+                    opacity: modulateOpacity(opacity, amplitude),
+                    transform: [{ scale: modulateScale(scale, amplitude) }],
                 },
             ]}
         />
     );
 };
 
-export const RippleVisualizer = ({ intensityLevel, colors }: RippleVisualizerProps) => {
+export const RippleVisualizer = ({ intensityLevel, colors, beatClock, amplitude = null }: RippleVisualizerProps) => {
+    const beatSynced = useBeatSync(beatClock);
+    // Null while unsynced, which puts rings back on their own loop
+    const beatFor = (every: number, offset: number): RingBeat | null =>
+        beatSynced && beatClock ? { clock: beatClock, every, offset } : null;
     const effectiveIntensity = Math.min(intensityLevel, 0.25);
     const { width, height } = Dimensions.get('window');
     const CENTER_X = width / 2;
@@ -145,6 +177,8 @@ export const RippleVisualizer = ({ intensityLevel, colors }: RippleVisualizerPro
                     centerX={CENTER_X}
                     centerY={CENTER_Y}
                     borderWidth={ringBorderWidth}
+                    beat={beatFor(ringCount, index)}
+                    amplitude={amplitude}
                 />
             ))}
 
@@ -158,6 +192,8 @@ export const RippleVisualizer = ({ intensityLevel, colors }: RippleVisualizerPro
                     centerX={CENTER_X}
                     centerY={CENTER_Y}
                     borderWidth={ringBorderWidth * 0.75}
+                    beat={beatFor(ringCount * 2, ringCount)}
+                    amplitude={amplitude}
                 />
             )}
         </View>
@@ -0,0 +1,26 @@
+import { Animated } from 'react-native';
+
+// Live loudness layered over a ring's own intensity-driven animation.
+// With no amplitude, or at zero, each helper hands back the baseline as is —
+// louder moments brighten, thicken and stretch the rings a little past it.
+//
+// Opacity and scale work on either driver. borderWidth is JS-driver only,
+// so native-driven rings leave it alone. The amplitude value takes on its
+// ring's driver: a value that has fed a native ring can't be reused by a
+// JS-driven one.
+
+export const modulateOpacity = (opacity: Animated.Value, amplitude?: Animated.Value | null) =>
+    amplitude
+        ? Animated.multiply(opacity, amplitude.interpolate({ inputRange: [0, 1], outputRange: [1, 1.4] }))
+        : opacity;
+
+export const modulateScale = (scale: Animated.Value, amplitude?: Animated.Value | null) =>
+    amplitude
+        ? Animated.multiply(scale, amplitude.interpolate({ inputRange: [0, 1], outputRange: [1, 1.15] }))
+        : scale;
+
+// JS-driven rings only — the native driver can't animate borderWidth
+export const modulateBorderWidth = (borderWidth: number, amplitude?: Animated.Value | null) =>
+    amplitude
+        ? amplitude.interpolate({ inputRange: [0, 1], outputRange: [borderWidth, borderWidth * 1.6] })
+        : borderWidth;
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { BeatClock, Tempo } from '../../services/BeatClock';
+
+// Whether the visualizer should follow the clock's beats right now.
+// False without a clock or when the current track has no analysis, in which
+// case visualizers keep their own intensity-driven timing.
+export const useBeatSync = (beatClock?: BeatClock | null): boolean => {
+    const [synced, setSynced] = useState(beatClock?.isSynced() ?? false);
+
+    useEffect(() => {
+        if (!beatClock) {
+            setSynced(false);
+            return;
+        }
+        setSynced(beatClock.isSynced());
+        return beatClock.onSyncChange(setSynced);
+    }, [beatClock]);
+
+    return synced;
+};
+
+// The current track's tempo, replaced on every track change so tempo-locked
+// animations re-align even when consecutive tracks share a BPM
+export const useTempo = (beatClock?: BeatClock | null): Tempo | null => {
+    const [tempo, setTempo] = useState(beatClock?.getTempo() ?? null);
+
+    useEffect(() => {
+        if (!beatClock) {
+            setTempo(null);
+            return;
+        }
+        setTempo(beatClock.getTempo());
+        return beatClock.onTempoChange(setTempo);
+    }, [beatClock]);
+
+    return tempo;
+};
+
+// A ring's share of the beats — it spawns on every `every`th beat, starting
+// at `offset`, so a set of rings takes turns instead of firing together
+export interface RingBeat {
+    clock: BeatClock;
+    every: number;
+    offset: number;
+}
+
+export const subscribeRingBeat = (beat: RingBeat, listener: (strength: number) => void): (() => void) =>
+    beat.clock.onBeat(({ index, strength }) => {
+        if (index % beat.every === beat.offset) listener(strength);
+    });
@@ -0,0 +1,213 @@
+// analyze-tracks.js
+// Offline beat and loudness analysis for the bundled tracks.
+// Decodes every track in assets/audio/manifest.json with ffmpeg and writes
+// beat timestamps plus an amplitude envelope to assets/audio/analysis.json,
+// keyed by TrackEntry.id. The app reads that file to sync the visualizers.
+//
+// Usage: npm run analyze-tracks [-- trackId ...]
+// Needs ffmpeg on the PATH. Tracks not named on the command line keep their
+// previous analysis.
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const ASSETS_DIR = path.join(__dirname, '..', 'assets');
+const MANIFEST_PATH = path.join(ASSETS_DIR, 'audio', 'manifest.json');
+const ANALYSIS_PATH = path.join(ASSETS_DIR, 'audio', 'analysis.json');
+
+const SAMPLE_RATE = 22050;
+// ~23ms onset frames — fine enough to place a beat within a video frame or two
+const HOP_SIZE = 512;
+const ENVELOPE_INTERVAL_MILLIS = 50;
+
+// Tempo search range. The prior favours tempi near 120 BPM so half and
+// double time don't win on a near-tie.
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120;
+
+// How strongly the beat tracker holds to the estimated tempo
+const TEMPO_TIGHTNESS = 100;
+
+const decode = (file) => {
+    const result = spawnSync(
+        'ffmpeg',
+        ['-v', 'error', '-i', file, '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE), '-'],
+        { maxBuffer: 1024 * 1024 * 1024 }
+    );
+    if (result.error) {
+        throw result.error.code === 'ENOENT'
+            ? new Error('ffmpeg not found — install it and make sure it is on the PATH')
+            : result.error;
+    }
+    if (result.status !== 0) {
+        throw new Error(`ffmpeg failed: ${result.stderr.toString().trim()}`);
+    }
+
+    const pcm = result.stdout;
+    const samples = new Float32Array(pcm.length / 2);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2) / 32768;
+    }
+    return samples;
+};
+
+// RMS per window, scaled so the loudest window is 1
+const computeEnvelope = (samples) => {
+    const windowSize = Math.round(SAMPLE_RATE * ENVELOPE_INTERVAL_MILLIS / 1000);
+    const values = [];
+    for (let start = 0; start < samples.length; start += windowSize) {
+        const end = Math.min(samples.length, start + windowSize);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+        values.push(Math.sqrt(sum / (end - start)));
+    }
+
+    const peak = Math.max(...values, 1e-9);
+    return {
+        intervalMillis: ENVELOPE_INTERVAL_MILLIS,
+        values: values.map(value => Math.round((value / peak) * 1000) / 1000),
+    };
+};
+
+// Rises in log energy between frames, with the local average removed so
+// sustained loud passages don't read as one long onset
+const computeOnsetStrength = (samples) => {
+    const frameCount = Math.floor(samples.length / HOP_SIZE);
+    const energy = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let i = frame * HOP_SIZE; i < (frame + 1) * HOP_SIZE; i++) sum += samples[i] * samples[i];
+        energy[frame] = Math.log(1e-6 + sum);
+    }
+
+    const flux = new Float32Array(frameCount);
+    for (let frame = 1; frame < frameCount; frame++) {
+        flux[frame] = Math.max(0, energy[frame] - energy[frame - 1]);
+    }
+
+    const radius = Math.round((SAMPLE_RATE / HOP_SIZE) * 0.25);
+    const onset = new Float32Array(frameCount);
+    let windowSum = 0;
+    for (let frame = 0; frame < Math.min(radius, frameCount); frame++) windowSum += flux[frame];
+    for (let frame = 0; frame < frameCount; frame++) {
+        const entering = frame + radius;
+        const leaving = frame - radius - 1;
+        if (entering < frameCount) windowSum += flux[entering];
+        if (leaving >= 0) windowSum -= flux[leaving];
+        const count = Math.min(frameCount - 1, entering) - Math.max(0, leaving + 1) + 1;
+        onset[frame] = Math.max(0, flux[frame] - windowSum / count);
+    }
+    return onset;
+};
+
+const framesPerMinute = () => (60 * SAMPLE_RATE) / HOP_SIZE;
+
+// Beat period in frames, from the autocorrelation of onset strength
+const estimatePeriod = (onset) => {
+    const minLag = Math.floor(framesPerMinute() / MAX_BPM);
+    const maxLag = Math.ceil(framesPerMinute() / MIN_BPM);
+
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = lag; i < onset.length; i++) sum += onset[i] * onset[i - lag];
+        const bpm = framesPerMinute() / lag;
+        const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+        const score = (sum / (onset.length - lag)) * prior;
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+    return bestLag;
+};
+
+// Dynamic-programming beat tracker: each frame's score is its onset strength
+// plus the best predecessor roughly one period back, penalised for straying
+// from the period. Lets the grid drift with the music instead of a fixed click.
+const trackBeats = (onset, period) => {
+    const score = new Float32Array(onset.length);
+    const backlink = new Int32Array(onset.length).fill(-1);
+
+    for (let frame = 0; frame < onset.length; frame++) {
+        let best = 0;
+        let bestFrom = -1;
+        const earliest = Math.max(0, frame - Math.round(period * 2));
+        const latest = frame - Math.round(period / 2);
+        for (let from = earliest; from <= latest; from++) {
+            const penalty = TEMPO_TIGHTNESS * Math.pow(Math.log((frame - from) / period), 2);
+            const candidate = score[from] - penalty;
+            if (candidate > best) {
+                best = candidate;
+                bestFrom = from;
+            }
+        }
+        score[frame] = onset[frame] + best;
+        backlink[frame] = bestFrom;
+    }
+
+    // Start from the strongest frame in the final period and walk back
+    let last = onset.length - 1;
+    for (let frame = Math.max(0, onset.length - Math.round(period)); frame < onset.length; frame++) {
+        if (score[frame] > score[last]) last = frame;
+    }
+
+    const beats = [];
+    for (let frame = last; frame >= 0; frame = backlink[frame]) beats.push(frame);
+    return beats.reverse();
+};
+
+const analyze = (file) => {
+    const samples = decode(file);
+    const onset = computeOnsetStrength(samples);
+    const period = estimatePeriod(onset);
+    const frames = trackBeats(onset, period);
+
+    const beats = frames.map(frame => Math.round((frame * HOP_SIZE * 1000) / SAMPLE_RATE));
+    const intervals = beats.slice(1).map((beat, index) => beat - beats[index]).sort((a, b) => a - b);
+    const median = intervals[Math.floor(intervals.length / 2)];
+
+    return {
+        bpm: median ? Math.round((60000 / median) * 10) / 10 : null,
+        beats,
+        envelope: computeEnvelope(samples),
+    };
+};
+
+const main = () => {
+    const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'));
+    const previous = fs.existsSync(ANALYSIS_PATH)
+        ? JSON.parse(fs.readFileSync(ANALYSIS_PATH, 'utf8')).tracks ?? {}
+        : {};
+    const only = process.argv.slice(2);
+
+    const tracks = {};
+    let failures = 0;
+    for (const category of Object.values(manifest.categories)) {
+        for (const track of category) {
+            if (only.length > 0 && !only.includes(track.id)) {
+                if (previous[track.id]) tracks[track.id] = previous[track.id];
+                continue;
+            }
+
+            try {
+                const result = analyze(path.join(ASSETS_DIR, track.file));
+                tracks[track.id] = result;
+                console.log(`${track.id}: ${result.bpm ?? '?'} BPM, ${result.beats.length} beats`);
+            } catch (error) {
+                failures++;
+                console.warn(`${track.id}: ${error.message}`);
+                if (previous[track.id]) tracks[track.id] = previous[track.id];
+            }
+        }
+    }
+
+    fs.writeFileSync(ANALYSIS_PATH, JSON.stringify({ version: 1, tracks }) + '\n');
+    console.log(`Wrote ${Object.keys(tracks).length} tracks to ${path.relative(process.cwd(), ANALYSIS_PATH)}`);
+    if (failures > 0) process.exitCode = 1;
+};
+
+main();
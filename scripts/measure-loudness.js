@@ -0,0 +1,74 @@
+// measure-loudness.js
+// Measures each bundled track's integrated loudness (EBU R128) with ffmpeg
+// and writes the gainDb that brings it to TARGET_LUFS into
+// assets/audio/manifest.json, so every track plays at a similar level.
+//
+// Usage: npm run measure-loudness [-- trackId ...]
+// Needs ffmpeg on the PATH. Tracks not named on the command line, or whose
+// audio can't be read, keep the gain they already have.
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const ASSETS_DIR = path.join(__dirname, '..', 'assets');
+const MANIFEST_PATH = path.join(ASSETS_DIR, 'audio', 'manifest.json');
+
+// Quiet enough that most mastered music is turned down rather than up —
+// players cap at full volume, so positive gains can't be fully applied
+const TARGET_LUFS = -16;
+
+// Matches GAIN_DB_RANGE in TrackRegistryValidator
+const MIN_GAIN_DB = -24;
+const MAX_GAIN_DB = 12;
+
+const measureLoudness = (file) => {
+    const result = spawnSync(
+        'ffmpeg',
+        ['-hide_banner', '-nostats', '-i', file, '-af', 'ebur128', '-f', 'null', '-'],
+        { maxBuffer: 64 * 1024 * 1024 }
+    );
+    if (result.error) {
+        throw result.error.code === 'ENOENT'
+            ? new Error('ffmpeg not found — install it and make sure it is on the PATH')
+            : result.error;
+    }
+    const output = result.stderr.toString();
+    if (result.status !== 0) {
+        throw new Error(`ffmpeg failed: ${output.trim().split('\n').pop()}`);
+    }
+
+    // The summary comes last; its "I:" line is the integrated loudness
+    const summary = output.slice(output.lastIndexOf('Summary:'));
+    const match = summary.match(/I:\s+(-?[\d.]+) LUFS/);
+    if (!match) throw new Error('No integrated loudness in ffmpeg output');
+    return Number(match[1]);
+};
+
+const main = () => {
+    const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'));
+    const only = process.argv.slice(2);
+
+    let failures = 0;
+    for (const category of Object.values(manifest.categories)) {
+        for (const track of category) {
+            if (only.length > 0 && !only.includes(track.id)) continue;
+
+            try {
+                const loudness = measureLoudness(path.join(ASSETS_DIR, track.file));
+                const gainDb = Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, TARGET_LUFS - loudness));
+                track.gainDb = Math.round(gainDb * 10) / 10;
+                console.log(`${track.id}: ${loudness} LUFS, gain ${track.gainDb}dB`);
+            } catch (error) {
+                failures++;
+                console.warn(`${track.id}: ${error.message}`);
+            }
+        }
+    }
+
+    fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 4) + '\n');
+    console.log(`Updated ${path.relative(process.cwd(), MANIFEST_PATH)}`);
+    if (failures > 0) process.exitCode = 1;
+};
+
+main();
@@ -0,0 +1,48 @@
+// AmbienceRegistry.ts
+// Catalog of ambience beds, laid out like the track catalog — one category
+// per energy state in assets/audio/ambience.json. A file is either a
+// manifest path for the AssetResolver (recordings) or 'synth:<kind>' for a
+// bed the NoiseGenerator builds on the device.
+
+import { parseManifest, resolveManifestTracks } from './TrackManifest';
+import { resolveAsset } from './AssetResolver';
+import { NOISE_KINDS, NoiseKind } from './NoiseGenerator';
+import ambienceManifestData from '../assets/audio/ambience.json';
+
+export interface AmbienceEntry {
+    id: string;
+    // Playable source, or { synth } for a generated bed
+    file: any;
+    title?: string;
+    license?: string;
+}
+
+const SYNTH_PREFIX = 'synth:';
+
+const resolveAmbience = (path: string): any | null => {
+    if (!path.startsWith(SYNTH_PREFIX)) return resolveAsset(path);
+    const kind = path.slice(SYNTH_PREFIX.length) as NoiseKind;
+    return NOISE_KINDS.includes(kind) ? { synth: kind } : null;
+};
+
+const manifest = parseManifest(ambienceManifestData);
+const REGISTRY: Record<string, AmbienceEntry[]> = resolveManifestTracks(manifest.categories, resolveAmbience);
+const ENTRIES_BY_ID: Record<string, AmbienceEntry> = {};
+for (const entries of Object.values(REGISTRY)) {
+    for (const entry of entries) ENTRIES_BY_ID[entry.id] = entry;
+}
+
+export class AmbienceRegistry {
+    static getForEnergyState(energyState: 'warm' | 'cool'): AmbienceEntry[] {
+        return REGISTRY[energyState] ?? [];
+    }
+
+    static getById(ambienceId: string): AmbienceEntry | null {
+        return ENTRIES_BY_ID[ambienceId] ?? null;
+    }
+
+    // The generator behind an entry, or null for a recording
+    static getNoiseKind(entry: AmbienceEntry): NoiseKind | null {
+        return entry.file?.synth ?? null;
+    }
+}
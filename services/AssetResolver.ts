@@ -0,0 +1,38 @@
+// AssetResolver.ts
+// Maps manifest file paths to playable sources.
+// Metro only bundles files reached by a static require(), so every bundled
+// track needs a line here. Paths are relative to assets/.
+// Anything with a URI scheme (downloaded or streamed packs) passes straight through.
+
+const BUNDLED_ASSETS: Record<string, any> = {
+    'audio/warm/warm-low.mp3': require('../assets/audio/warm/warm-low.mp3'),
+    'audio/warm/warm-medium.mp3': require('../assets/audio/warm/warm-medium.mp3'),
+    'audio/warm/warm-high.mp3': require('../assets/audio/warm/warm-high.mp3'),
+    'audio/warm/holizna-jump.mp3': require('../assets/audio/warm/holizna-jump.mp3'),
+    'audio/warm/holizna-witchcraft.mp3': require('../assets/audio/warm/holizna-witchcraft.mp3'),
+    'audio/warm/metre-path.mp3': require('../assets/audio/warm/metre-path.mp3'),
+    'audio/warm/playhouse-free.mp3': require('../assets/audio/warm/playhouse-free.mp3'),
+    'audio/cool/cool-low.mp3': require('../assets/audio/cool/cool-low.mp3'),
+    'audio/cool/cool-medium.mp3': require('../assets/audio/cool/cool-medium.mp3'),
+    'audio/cool/cool-high.mp3': require('../assets/audio/cool/cool-high.mp3'),
+    'audio/cool/holizna-tokyo-sunset.mp3': require('../assets/audio/cool/holizna-tokyo-sunset.mp3'),
+    'audio/cool/holizna-2-hour-delay.mp3': require('../assets/audio/cool/holizna-2-hour-delay.mp3'),
+    'audio/cool/holizna-one-night-in-france.mp3': require('../assets/audio/cool/holizna-one-night-in-france.mp3'),
+    'audio/cool/holizna-waiting-around.mp3': require('../assets/audio/cool/holizna-waiting-around.mp3'),
+    'audio/cool/holizna-confusion.mp3': require('../assets/audio/cool/holizna-confusion.mp3'),
+    'audio/cool/holizna-when-time-called-me-darling.mp3': require('../assets/audio/cool/holizna-when-time-called-me-darling.mp3'),
+    'audio/cool/metre-conduit.mp3': require('../assets/audio/cool/metre-conduit.mp3'),
+    'audio/cool/metre-slipshod.mp3': require('../assets/audio/cool/metre-slipshod.mp3'),
+};
+
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+export type AssetResolver = (path: string) => any | null;
+
+// Returns something Audio.Sound.createAsync accepts, or null if the path is unknown
+export const resolveAsset: AssetResolver = (path) => {
+    if (URI_PATTERN.test(path)) {
+        return { uri: path };
+    }
+    return BUNDLED_ASSETS[path] ?? null;
+};
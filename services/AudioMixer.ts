@@ -0,0 +1,102 @@
+// AudioMixer.ts
+// Two channels under the user's master volume:
+//   music    — whatever the active provider is playing
+//   ambience — a looping bed (rain, ocean, noise) on its own Audio.Sound
+// Each channel has its own volume and fades. The music channel's fades are
+// handed to the provider as its volume envelope; the ambience channel is a
+// LoopingBed that fades its own sound.
+
+import { MusicProvider } from './MusicProvider';
+import { AmbienceEntry, AmbienceRegistry } from './AmbienceRegistry';
+import { generateNoise } from './NoiseGenerator';
+import { DEFAULT_ENVELOPE, VolumeEnvelope } from './Crossfade';
+import { LoopingBed, getCachedWavSource } from './LoopingBed';
+
+export type MixerChannel = 'music' | 'ambience';
+
+export interface ChannelSettings {
+    // 0–1, scaled by the master volume
+    volume: number;
+    envelope: VolumeEnvelope;
+}
+
+const DEFAULT_CHANNELS: Record<MixerChannel, ChannelSettings> = {
+    music: { volume: 1, envelope: DEFAULT_ENVELOPE },
+    // Beds sit under the music, and arrive and leave slowly
+    ambience: { volume: 0.4, envelope: { fadeInMs: 4000, fadeOutMs: 2500 } },
+};
+
+const clampVolume = (volume: number) => Math.max(0, Math.min(1, volume));
+
+export class AudioMixer {
+    private masterVolume = 1;
+    private channels: Record<MixerChannel, ChannelSettings> = { ...DEFAULT_CHANNELS };
+    private provider: MusicProvider | null = null;
+    private ambience = new LoopingBed<AmbienceEntry>({
+        name: 'ambience',
+        isSame: (a, b) => a?.id === b?.id,
+        getSource: entry => {
+            const kind = AmbienceRegistry.getNoiseKind(entry);
+            // Generated beds are built once
+            return kind ? getCachedWavSource(`ambience-${kind}.wav`, () => generateNoise(kind)) : entry.file;
+        },
+        getVolume: () => this.getLevel('ambience'),
+        getEnvelope: () => this.channels.ambience.envelope,
+    });
+
+    // Hands the music channel to a provider, at the channel's level and fades
+    async attachMusic(provider: MusicProvider | null): Promise<void> {
+        this.provider = provider;
+        if (!provider) return;
+        provider.setVolumeEnvelope?.(this.channels.music.envelope);
+        await provider.setVolume(this.getLevel('music'));
+    }
+
+    getMasterVolume(): number {
+        return this.masterVolume;
+    }
+
+    async setMasterVolume(volume: number): Promise<void> {
+        this.masterVolume = clampVolume(volume);
+        await Promise.all([this.applyLevel('music'), this.applyLevel('ambience')]);
+    }
+
+    getChannel(channel: MixerChannel): ChannelSettings {
+        return this.channels[channel];
+    }
+
+    async setChannelVolume(channel: MixerChannel, volume: number): Promise<void> {
+        this.channels[channel] = { ...this.channels[channel], volume: clampVolume(volume) };
+        await this.applyLevel(channel);
+    }
+
+    // Fades already under way finish at their old length
+    setChannelFade(channel: MixerChannel, envelope: Partial<VolumeEnvelope>): void {
+        const settings = this.channels[channel];
+        this.channels[channel] = { ...settings, envelope: { ...settings.envelope, ...envelope } };
+        if (channel === 'music') this.provider?.setVolumeEnvelope?.(this.channels.music.envelope);
+    }
+
+    // Called with the bed to play (or null) and whether it should be audible.
+    // Cheap when nothing changed, so the manager can call it on every status update.
+    updateAmbience(entry: AmbienceEntry | null, playing: boolean): void {
+        this.ambience.update(entry, playing);
+    }
+
+    cleanup(): Promise<void> {
+        this.provider = null;
+        return this.ambience.cleanup();
+    }
+
+    private getLevel(channel: MixerChannel): number {
+        return this.masterVolume * this.channels[channel].volume;
+    }
+
+    private async applyLevel(channel: MixerChannel): Promise<void> {
+        if (channel === 'music') {
+            if (this.provider) await this.provider.setVolume(this.getLevel('music'));
+        } else {
+            await this.ambience.applyVolume();
+        }
+    }
+}
@@ -0,0 +1,53 @@
+// AudioOperationQueue.ts
+// Runs audio operations one at a time, in the order they were requested.
+// expo-av calls are async and not safe to interleave — a load racing an
+// unload is how sounds leak or end up playing on top of each other.
+
+export class OperationCancelledError extends Error {
+    constructor(label: string) {
+        super(`Audio operation cancelled: ${label}`);
+        this.name = 'OperationCancelledError';
+    }
+}
+
+export interface CancellationToken {
+    readonly cancelled: boolean;
+    cancel(): void;
+}
+
+export const createCancellationToken = (): CancellationToken => {
+    let cancelled = false;
+    return {
+        get cancelled() {
+            return cancelled;
+        },
+        cancel() {
+            cancelled = true;
+        },
+    };
+};
+
+export class AudioOperationQueue {
+    private tail: Promise<unknown> = Promise.resolve();
+
+    // Queues an operation behind everything already queued. If its token is
+    // cancelled before its turn comes, it rejects without running. Operations
+    // that run long should also check the token after each await.
+    enqueue<T>(
+        label: string,
+        operation: () => Promise<T>,
+        token: CancellationToken = createCancellationToken()
+    ): Promise<T> {
+        const run = async (): Promise<T> => {
+            if (token.cancelled) {
+                throw new OperationCancelledError(label);
+            }
+            return operation();
+        };
+
+        const result = this.tail.then(run, run);
+        // A failed operation must not stall the ones behind it
+        this.tail = result.catch(() => {});
+        return result;
+    }
+}
@@ -0,0 +1,156 @@
+// BeatClock.ts
+// Turns playback position into beat events for the visualizers.
+// Position updates from the provider arrive every few hundred milliseconds,
+// so between them the clock extrapolates from the wall clock and checks the
+// current track's analysed beats at animation-frame granularity.
+
+import type { MusicServiceManager } from './MusicServiceManager';
+import type { TrackEntry } from './TrackRegistry';
+import { TrackAnalysis, findBeatIndex, getAmplitudeAt, getTrackAnalysis } from './TrackAnalysis';
+
+export interface Beat {
+    // Position of the beat within the track's beat list
+    index: number;
+    positionMillis: number;
+    // Track loudness at the beat, 0 to 1 — quiet passages pulse softly
+    strength: number;
+}
+
+// The current track's tempo and where its beat grid starts
+export interface Tempo {
+    trackId: string;
+    bpm: number;
+    offsetMillis: number;
+}
+
+type PlaybackSource = Pick<MusicServiceManager, 'subscribe' | 'getCurrentTrack' | 'getPositionMillis'>;
+
+const TICK_MS = 16;
+
+// A beat noticed later than this (a stalled JS thread, a seek) is dropped
+// rather than fired late — a late pulse reads as off-beat
+const LATE_BEAT_MS = 120;
+
+// Reported position this far behind the extrapolated one means playback went
+// back (rewind, replay); smaller differences are just extrapolation drift
+const REWIND_MS = 300;
+
+export class BeatClock {
+    private beatListeners = new Set<(beat: Beat) => void>();
+    private syncListeners = new Set<(synced: boolean) => void>();
+    private tempoListeners = new Set<(tempo: Tempo | null) => void>();
+    private unsubscribers: (() => void)[] = [];
+    private ticker: ReturnType<typeof setInterval> | null = null;
+
+    private analysis: TrackAnalysis | null = null;
+    private tempo: Tempo | null = null;
+    private nextBeat = 0;
+    private playing = false;
+    // Last reported position and when it arrived
+    private anchorPosition = 0;
+    private anchorTime = 0;
+
+    constructor(private source: PlaybackSource, private now: () => number = Date.now) {}
+
+    start(): void {
+        if (this.ticker) return;
+
+        this.unsubscribers = [
+            this.source.subscribe('trackChanged', ({ track }) => this.setTrack(track)),
+            this.source.subscribe('positionUpdate', ({ positionMillis, isPlaying }) => {
+                this.anchor(positionMillis, isPlaying);
+            }),
+        ];
+        this.setTrack(this.source.getCurrentTrack());
+        this.ticker = setInterval(this.tick, TICK_MS);
+    }
+
+    stop(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        if (this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = null;
+        }
+    }
+
+    // Best estimate of the playback position between provider updates
+    getPositionMillis(): number {
+        return this.playing
+            ? this.anchorPosition + (this.now() - this.anchorTime)
+            : this.anchorPosition;
+    }
+
+    // True while the current track has beat analysis to follow
+    isSynced(): boolean {
+        return this.analysis !== null;
+    }
+
+    onBeat(listener: (beat: Beat) => void): () => void {
+        this.beatListeners.add(listener);
+        return () => this.beatListeners.delete(listener);
+    }
+
+    // From the track's analysis, or the BPM in its registry entry. Null when unknown.
+    getTempo(): Tempo | null {
+        return this.tempo;
+    }
+
+    // Fires on every track change, so listeners can re-align to the new track
+    onTempoChange(listener: (tempo: Tempo | null) => void): () => void {
+        this.tempoListeners.add(listener);
+        return () => this.tempoListeners.delete(listener);
+    }
+
+    // Fires when the current track gains or loses analysis
+    onSyncChange(listener: (synced: boolean) => void): () => void {
+        this.syncListeners.add(listener);
+        return () => this.syncListeners.delete(listener);
+    }
+
+    private setTrack(track: TrackEntry | null): void {
+        const wasSynced = this.isSynced();
+        this.analysis = track ? getTrackAnalysis(track.id) : null;
+        this.anchor(this.source.getPositionMillis(), this.playing);
+        this.nextBeat = this.analysis ? findBeatIndex(this.analysis.beats, this.anchorPosition) : 0;
+
+        const bpm = this.analysis?.bpm ?? track?.bpm;
+        this.tempo = track && bpm && bpm > 0
+            ? { trackId: track.id, bpm, offsetMillis: this.analysis?.beats[0] ?? 0 }
+            : null;
+        this.tempoListeners.forEach(listener => listener(this.tempo));
+
+        if (this.isSynced() !== wasSynced) {
+            this.syncListeners.forEach(listener => listener(this.isSynced()));
+        }
+    }
+
+    private anchor(positionMillis: number, isPlaying: boolean): void {
+        if (this.analysis && positionMillis < this.getPositionMillis() - REWIND_MS) {
+            this.nextBeat = findBeatIndex(this.analysis.beats, positionMillis);
+        }
+        this.anchorPosition = positionMillis;
+        this.anchorTime = this.now();
+        this.playing = isPlaying;
+    }
+
+    private tick = (): void => {
+        const analysis = this.analysis;
+        if (!analysis || !this.playing) return;
+
+        const position = this.getPositionMillis();
+        const { beats } = analysis;
+        while (this.nextBeat < beats.length && beats[this.nextBeat] <= position) {
+            const beatPosition = beats[this.nextBeat];
+            if (position - beatPosition <= LATE_BEAT_MS) {
+                const beat = {
+                    index: this.nextBeat,
+                    positionMillis: beatPosition,
+                    strength: getAmplitudeAt(analysis, beatPosition),
+                };
+                this.beatListeners.forEach(listener => listener(beat));
+            }
+            this.nextBeat++;
+        }
+    };
+}
@@ -0,0 +1,46 @@
+// Credits.ts
+// Attribution for the catalog, grouped by artist. Pure — built from any
+// registry shape, so it always matches whatever actually ships.
+
+import type { TrackEntry } from './TrackRegistry';
+
+export interface TrackCredit {
+    id: string;
+    title: string | null;
+    license: string | null;
+    category: string;
+}
+
+export interface ArtistCredits {
+    // Null groups the tracks with no artist on file
+    artist: string | null;
+    tracks: TrackCredit[];
+}
+
+// Artists alphabetically, unattributed tracks last; tracks by title within each
+export const buildCredits = (registry: Record<string, TrackEntry[]>): ArtistCredits[] => {
+    const byArtist = new Map<string | null, TrackCredit[]>();
+
+    for (const [category, tracks] of Object.entries(registry)) {
+        for (const track of tracks) {
+            const artist = track.artist?.trim() || null;
+            const credits = byArtist.get(artist) ?? [];
+            credits.push({
+                id: track.id,
+                title: track.title ?? null,
+                license: track.license ?? null,
+                category,
+            });
+            byArtist.set(artist, credits);
+        }
+    }
+
+    const byTitle = (a: TrackCredit, b: TrackCredit) => (a.title ?? a.id).localeCompare(b.title ?? b.id);
+    return [...byArtist.entries()]
+        .map(([artist, tracks]) => ({ artist, tracks: tracks.sort(byTitle) }))
+        .sort((a, b) => {
+            if (a.artist === null) return 1;
+            if (b.artist === null) return -1;
+            return a.artist.localeCompare(b.artist);
+        });
+};
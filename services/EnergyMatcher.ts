@@ -0,0 +1,87 @@
+// EnergyMatcher.ts
+// Matches the exact 0–1 intensity from the spiral gesture to a track's
+// energy score, instead of collapsing it into low/medium/high first.
+// Tracks without a score stand in at the middle of their category's band,
+// so sparse metadata degrades to the old bucket behaviour rather than breaking.
+
+import type { TrackEntry } from './TrackRegistry';
+
+export type IntensityLevel = 'low' | 'medium' | 'high';
+
+export const INTENSITY_BANDS: Record<IntensityLevel, { min: number; max: number }> = {
+    low: { min: 0, max: 0.33 },
+    medium: { min: 0.33, max: 0.66 },
+    high: { min: 0.66, max: 1 },
+};
+
+// Tracks this close to the best match are treated as equally good,
+// so the same track doesn't win every time
+const MATCH_WINDOW = 0.1;
+
+// Beyond this the catalog simply has nothing near the requested intensity
+const SPARSE_DISTANCE = 0.25;
+
+export interface EnergyCandidate {
+    track: TrackEntry;
+    category: string;
+}
+
+export const getIntensityLevel = (intensity: number): IntensityLevel => {
+    if (intensity < INTENSITY_BANDS.low.max) return 'low';
+    if (intensity < INTENSITY_BANDS.medium.max) return 'medium';
+    return 'high';
+};
+
+const LEVEL_ORDER: IntensityLevel[] = ['low', 'medium', 'high'];
+
+// The bands either side of the intensity's own, nearest first — where to
+// look when its own band has nothing playable left
+export const getNeighbouringLevels = (intensity: number): IntensityLevel[] => {
+    const index = LEVEL_ORDER.indexOf(getIntensityLevel(intensity));
+    const distance = (level: IntensityLevel) =>
+        Math.abs((INTENSITY_BANDS[level].min + INTENSITY_BANDS[level].max) / 2 - intensity);
+    return [LEVEL_ORDER[index - 1], LEVEL_ORDER[index + 1]]
+        .filter((level): level is IntensityLevel => level !== undefined)
+        .sort((a, b) => distance(a) - distance(b));
+};
+
+// 'warm-high' → 'high', or null for categories outside the usual scheme
+const getCategoryLevel = (category: string): IntensityLevel | null => {
+    const level = category.split('-').pop();
+    return level === 'low' || level === 'medium' || level === 'high' ? level : null;
+};
+
+export const getTrackEnergy = (track: TrackEntry, category: string): number => {
+    if (track.energy !== undefined) return track.energy;
+    const level = getCategoryLevel(category) ?? 'medium';
+    const band = INTENSITY_BANDS[level];
+    return (band.min + band.max) / 2;
+};
+
+// Every candidate within MATCH_WINDOW of the closest one — the selection
+// strategy then chooses among them as it would within a category
+export const matchByEnergy = (
+    candidates: EnergyCandidate[],
+    intensity: number,
+    avoidIds: string[] = []
+): EnergyCandidate[] => {
+    if (candidates.length === 0) return [];
+
+    // Avoiding recent tracks is a preference, not a rule
+    const fresh = candidates.filter(candidate => !avoidIds.includes(candidate.track.id));
+    const pool = fresh.length > 0 ? fresh : candidates;
+
+    const scored = pool.map(candidate => ({
+        candidate,
+        distance: Math.abs(getTrackEnergy(candidate.track, candidate.category) - intensity),
+    }));
+    const best = Math.min(...scored.map(entry => entry.distance));
+
+    if (best > SPARSE_DISTANCE) {
+        console.warn(`No track near intensity ${intensity.toFixed(2)}, closest is ${best.toFixed(2)} away`);
+    }
+
+    return scored
+        .filter(entry => entry.distance <= best + MATCH_WINDOW)
+        .map(entry => entry.candidate);
+};
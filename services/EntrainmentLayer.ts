@@ -0,0 +1,73 @@
+// EntrainmentLayer.ts
+// Optional tone bed under the music — binaural or isochronic beats matched to
+// the session's energy. Tones are synthesised on the device, written to the
+// cache directory as WAV and looped on a LoopingBed, apart from the
+// provider's track and at their own volume.
+
+import { EntrainmentMode, EntrainmentTone, chooseEntrainmentTone, generateTone, isSameTone } from './ToneGenerator';
+import { LoopingBed, getCachedWavSource } from './LoopingBed';
+
+export interface EntrainmentSettings {
+    enabled: boolean;
+    mode: EntrainmentMode;
+    // Layer volume, 0–1 — independent of the music's master volume
+    volume: number;
+}
+
+export const DEFAULT_ENTRAINMENT: EntrainmentSettings = {
+    enabled: false,
+    mode: 'binaural',
+    volume: 0.15,
+};
+
+// What the layer follows — the manager's playback session fits as is
+export interface EntrainmentTarget {
+    energyType: 'warm' | 'cool';
+    intensity: number;
+}
+
+const FADE_MS = 1500;
+
+export class EntrainmentLayer {
+    private settings: EntrainmentSettings = DEFAULT_ENTRAINMENT;
+    // A program ramp steps the beat every few seconds — blending straight into
+    // the new tone keeps the layer sounding instead of dipping out and back in
+    private bed = new LoopingBed<EntrainmentTone>({
+        name: 'entrainment',
+        isSame: isSameTone,
+        // Each distinct tone is generated once
+        getSource: tone => getCachedWavSource(
+            `entrainment-${tone.mode}-${tone.carrierHz}-${tone.beatHz}.wav`,
+            () => generateTone(tone)
+        ),
+        getVolume: () => this.settings.volume,
+        getEnvelope: () => ({ fadeInMs: FADE_MS, fadeOutMs: FADE_MS }),
+        crossfadeMs: FADE_MS,
+    });
+
+    getSettings(): EntrainmentSettings {
+        return this.settings;
+    }
+
+    setSettings(settings: Partial<EntrainmentSettings>): void {
+        this.settings = { ...this.settings, ...settings };
+        if (settings.volume !== undefined) {
+            this.bed.applyVolume().catch(error => {
+                console.warn('Failed to set entrainment volume:', error);
+            });
+        }
+    }
+
+    // Called with the current session and whether music is audible. Cheap when
+    // nothing changed, so the manager can call it on every status update.
+    update(target: EntrainmentTarget | null, musicPlaying: boolean): void {
+        const tone = target && this.settings.enabled
+            ? chooseEntrainmentTone(target.energyType, target.intensity, this.settings.mode)
+            : null;
+        this.bed.update(tone, musicPlaying);
+    }
+
+    cleanup(): Promise<void> {
+        return this.bed.cleanup();
+    }
+}
@@ -0,0 +1,158 @@
+// FakeMusicProvider.ts
+// In-memory provider with a virtual clock — no audio, no native modules.
+// Playback only moves when advance() is called, so timing-dependent
+// behaviour (track ends, session advance) can be driven step by step.
+
+import { MusicProvider, PlaybackStatusListener } from './MusicProvider';
+import { CrossfadeOptions } from './Crossfade';
+import { TrackEntry } from './TrackRegistry';
+
+export interface FakeMusicProviderOptions {
+    // Length of every track unless overridden per track ID
+    defaultDurationMillis?: number;
+    durationsMillis?: Record<string, number>;
+    // Track IDs whose load should reject — for exercising error paths
+    failingTrackIds?: string[];
+}
+
+export class FakeMusicProvider implements MusicProvider {
+    name = 'Fake';
+    private currentTrackEntry: TrackEntry | null = null;
+    private playing: boolean = false;
+    private volume: number = 1.0;
+    private positionMillis: number = 0;
+    private durationMillis: number | null = null;
+    private statusListener: PlaybackStatusListener | null = null;
+    private preloadedIds: Set<string> = new Set();
+
+    private readonly defaultDurationMillis: number;
+    private readonly durationsMillis: Record<string, number>;
+    private readonly failingTrackIds: Set<string>;
+
+    constructor(options: FakeMusicProviderOptions = {}) {
+        this.defaultDurationMillis = options.defaultDurationMillis ?? 180000;
+        this.durationsMillis = options.durationsMillis ?? {};
+        this.failingTrackIds = new Set(options.failingTrackIds ?? []);
+    }
+
+    async initialize(): Promise<void> {}
+
+    async preloadTrack(trackEntry: TrackEntry): Promise<boolean> {
+        if (this.failingTrackIds.has(trackEntry.id)) return false;
+        this.preloadedIds.add(trackEntry.id);
+        return true;
+    }
+
+    async loadTrack(trackEntry: TrackEntry): Promise<void> {
+        if (this.failingTrackIds.has(trackEntry.id)) {
+            throw new Error(`Fake load failure: ${trackEntry.id}`);
+        }
+
+        this.preloadedIds.delete(trackEntry.id);
+        this.currentTrackEntry = trackEntry;
+        this.playing = false;
+        this.positionMillis = 0;
+        this.durationMillis = this.durationsMillis[trackEntry.id] ?? this.defaultDurationMillis;
+        this.emitStatus();
+    }
+
+    // No fade to simulate — the switch is immediate and playback carries on
+    async crossfadeTo(trackEntry: TrackEntry, _options?: CrossfadeOptions): Promise<void> {
+        await this.loadTrack(trackEntry);
+        await this.play();
+    }
+
+    async play(): Promise<void> {
+        if (!this.currentTrackEntry) throw new Error('No track loaded');
+        this.playing = true;
+        this.emitStatus();
+    }
+
+    async pause(): Promise<void> {
+        if (!this.currentTrackEntry) return;
+        this.playing = false;
+        this.emitStatus();
+    }
+
+    async stop(): Promise<void> {
+        if (!this.currentTrackEntry) return;
+        this.playing = false;
+        this.positionMillis = 0;
+        this.emitStatus();
+    }
+
+    async setVolume(volume: number): Promise<void> {
+        this.volume = Math.max(0, Math.min(1, volume));
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    async cleanup(): Promise<void> {
+        this.preloadedIds.clear();
+        this.currentTrackEntry = null;
+        this.playing = false;
+        this.positionMillis = 0;
+        this.durationMillis = null;
+        this.emitStatus();
+    }
+
+    getCurrentTrack(): TrackEntry | null {
+        return this.currentTrackEntry;
+    }
+
+    getPositionMillis(): number {
+        return this.positionMillis;
+    }
+
+    getDurationMillis(): number | null {
+        return this.durationMillis;
+    }
+
+    setOnStatusUpdate(listener: PlaybackStatusListener | null): void {
+        this.statusListener = listener;
+    }
+
+    // Virtual clock — moves playback forward by ms if playing.
+    // Reaching the end of the track fires a didJustFinish status, like expo-av.
+    advance(ms: number): void {
+        if (!this.playing || this.durationMillis === null) return;
+
+        this.positionMillis = Math.min(this.durationMillis, this.positionMillis + ms);
+
+        if (this.positionMillis >= this.durationMillis) {
+            this.playing = false;
+            this.emitStatus(true);
+            return;
+        }
+
+        this.emitStatus();
+    }
+
+    // Stands in for a phone call or unplugged headphones — pauses in place
+    interrupt(): void {
+        if (!this.playing) return;
+        this.playing = false;
+        this.emitStatus(false, true);
+    }
+
+    getVolume(): number {
+        return this.volume;
+    }
+
+    isPreloaded(trackId: string): boolean {
+        return this.preloadedIds.has(trackId);
+    }
+
+    private emitStatus(didJustFinish: boolean = false, interrupted: boolean = false): void {
+        this.statusListener?.({
+            track: this.currentTrackEntry,
+            isPlaying: this.playing,
+            positionMillis: this.positionMillis,
+            durationMillis: this.durationMillis,
+            didJustFinish,
+            interrupted,
+        });
+    }
+}
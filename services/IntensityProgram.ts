@@ -0,0 +1,87 @@
+// IntensityProgram.ts
+// A session that changes over time — a timeline of keyframes, each holding
+// or ramping to an energy and intensity for a set duration. Evaluation is a
+// pure function of elapsed time, so the same program always plays out the same.
+
+export interface ProgramKeyframe {
+    energyState: 'warm' | 'cool';
+    intensity: number;
+    durationMillis: number;
+    // True climbs from the previous keyframe's intensity (or from 0 at the start)
+    // over the duration; false holds this intensity throughout
+    ramp: boolean;
+}
+
+export interface IntensityProgram {
+    id: string;
+    name: string;
+    keyframes: ProgramKeyframe[];
+}
+
+// Where a program is at a given moment
+export interface ProgramState {
+    energyState: 'warm' | 'cool';
+    intensity: number;
+    // Index of the keyframe currently playing — changes mark category boundaries
+    keyframeIndex: number;
+    finished: boolean;
+}
+
+export class ProgramError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProgramError';
+    }
+}
+
+export const getProgramDurationMillis = (program: IntensityProgram): number =>
+    program.keyframes.reduce((total, keyframe) => total + keyframe.durationMillis, 0);
+
+export const evaluateProgram = (program: IntensityProgram, elapsedMillis: number): ProgramState => {
+    const { keyframes } = program;
+    let segmentStart = 0;
+
+    for (let index = 0; index < keyframes.length; index++) {
+        const keyframe = keyframes[index];
+        const segmentEnd = segmentStart + keyframe.durationMillis;
+
+        if (elapsedMillis < segmentEnd) {
+            const progress = (elapsedMillis - segmentStart) / keyframe.durationMillis;
+            const from = index > 0 ? keyframes[index - 1].intensity : 0;
+            const intensity = keyframe.ramp
+                ? from + (keyframe.intensity - from) * Math.max(0, progress)
+                : keyframe.intensity;
+            return { energyState: keyframe.energyState, intensity, keyframeIndex: index, finished: false };
+        }
+        segmentStart = segmentEnd;
+    }
+
+    // Past the end — rest on the final keyframe
+    const last = keyframes[keyframes.length - 1];
+    return { energyState: last.energyState, intensity: last.intensity, keyframeIndex: keyframes.length - 1, finished: true };
+};
+
+// Throws ProgramError on the first problem — used before saving user-authored programs
+export const validateProgram = (program: IntensityProgram): void => {
+    if (!program.id) {
+        throw new ProgramError('Program has no id');
+    }
+    if (!program.name.trim()) {
+        throw new ProgramError('Program needs a name');
+    }
+    if (program.keyframes.length === 0) {
+        throw new ProgramError(`${program.name} has no keyframes`);
+    }
+
+    program.keyframes.forEach((keyframe, index) => {
+        if (keyframe.energyState !== 'warm' && keyframe.energyState !== 'cool') {
+            throw new ProgramError(`${program.name}: keyframe ${index + 1} needs an energy state of warm or cool`);
+        }
+        if (!(keyframe.intensity >= 0 && keyframe.intensity <= 1)) {
+            throw new ProgramError(`${program.name}: keyframe ${index + 1} intensity must be between 0 and 1`);
+        }
+        if (!(keyframe.durationMillis > 0)) {
+            throw new ProgramError(`${program.name}: keyframe ${index + 1} needs a duration`);
+        }
+    });
+};
@@ -1,15 +1,70 @@
 import { Audio, AVPlaybackStatus } from "expo-av";
-import { MusicProvider, Track } from './MusicProvider';
+import { AmplitudeListener, MusicProvider, PlaybackStatusListener, Track } from './MusicProvider';
 import { TrackEntry } from './TrackRegistry';
+import { CrossfadeOptions, DEFAULT_CROSSFADE, DEFAULT_ENVELOPE, VolumeEnvelope, rampVolume, runCrossfade } from './Crossfade';
+import { getTrackLevel } from './Loudness';
+import { PreloadCache, PreloadCacheBudget, PreloadCacheStats, DEFAULT_PRELOAD_BUDGET } from './PreloadCache';
+import { AudioOperationQueue, CancellationToken, OperationCancelledError, createCancellationToken } from './AudioOperationQueue';
+import { measureSampleLevel, smoothLevel } from './Metering';
+
+// Rough decoded size — 44.1kHz, stereo, 16-bit
+const BYTES_PER_SECOND = 44100 * 2 * 2;
+// Used when a sound doesn't report its duration
+const FALLBACK_DURATION_SECONDS = 180;
+// Status updates double as the metering clock — fast enough for visuals to
+// follow the music rather than lag a beat behind
+const STATUS_INTERVAL_MS = 50;
+
+// A preload still loading — later requests for the same track share its promise
+interface InFlightPreload {
+    token: CancellationToken;
+    promise: Promise<boolean>;
+}
 
 export class LocalAudioProvider implements MusicProvider {
     name = 'Local';
     private sound: Audio.Sound | null = null;
     private currentTrackEntry: TrackEntry | null = null;
     private playing: boolean = false;
+    // Master volume — each track plays at this scaled by its own gain
+    private volume: number = 1.0;
+    private envelope: VolumeEnvelope = DEFAULT_ENVELOPE;
+
+    // Outgoing sound while a crossfade is running — unloaded once the fade completes
+    private fadingSound: Audio.Sound | null = null;
+    // Bumped on every new fade (crossfade or fade-in) so a superseded one stops stepping
+    private fadeGeneration: number = 0;
+    // Volume the sound had when the system interrupted it — resuming picks up
+    // there instead of swelling in from silence again
+    private interruptedLevel: number | null = null;
+
+    // Mirrored from expo-av status callbacks so reads are synchronous
+    private positionMillis: number = 0;
+    private durationMillis: number | null = null;
+    private statusListener: PlaybackStatusListener | null = null;
+
+    // Loudest PCM buffer since the last status update, and the smoothed level published from it
+    private loudestSample: number = 0;
+    private amplitude: number = 0;
+    private amplitudeListener: AmplitudeListener | null = null;
 
-    // Cache for preloaded sounds — keyed by track ID
-    private preloadedSounds: Record<string, Audio.Sound> = {};
+    // Preloaded sounds keyed by track ID, bounded by a memory budget
+    private preloadCache: PreloadCache<Audio.Sound>;
+    private inFlightPreloads: Map<string, InFlightPreload> = new Map();
+
+    // Every load, play, stop and unload runs through here, one at a time
+    private operations = new AudioOperationQueue();
+    // Shared by loads and plays queued for the current track. Replaced on every
+    // new load and on stop, so queued work for a superseded track never runs.
+    private playbackToken: CancellationToken = createCancellationToken();
+
+    constructor(preloadBudget: PreloadCacheBudget = DEFAULT_PRELOAD_BUDGET) {
+        this.preloadCache = new PreloadCache<Audio.Sound>(preloadBudget, (trackId, sound) => {
+            sound.unloadAsync().catch(error => {
+                console.warn(`Failed to unload evicted track ${trackId}:`, error);
+            });
+        });
+    }
 
     async initialize(): Promise<void> {
         await Audio.setAudioModeAsync({
@@ -21,123 +76,517 @@ export class LocalAudioProvider implements MusicProvider {
         console.log('LocalAudioProvider initialized.');
     }
 
-    // Preloads a track into memory without playing it
-    async preloadTrack(trackEntry: TrackEntry): Promise<void> {
+    // Preloads a track into memory without playing it. Preloads run alongside
+    // the operation queue; asking again for a track already loading joins that load.
+    preloadTrack(trackEntry: TrackEntry): Promise<boolean> {
         // Skip if already preloaded or currently active
-        if (this.preloadedSounds[trackEntry.id] || this.currentTrackEntry?.id === trackEntry.id) {
-            return;
+        if (this.preloadCache.has(trackEntry.id)) {
+            this.preloadCache.touch(trackEntry.id);
+            return Promise.resolve(true);
         }
+        if (this.currentTrackEntry?.id === trackEntry.id) return Promise.resolve(true);
+
+        const inFlight = this.inFlightPreloads.get(trackEntry.id);
+        if (inFlight) return inFlight.promise;
 
+        const token = createCancellationToken();
+        const promise = this.performPreload(trackEntry, token).finally(() => {
+            if (this.inFlightPreloads.get(trackEntry.id)?.token === token) {
+                this.inFlightPreloads.delete(trackEntry.id);
+            }
+        });
+        this.inFlightPreloads.set(trackEntry.id, { token, promise });
+        return promise;
+    }
+
+    private async performPreload(trackEntry: TrackEntry, token: CancellationToken): Promise<boolean> {
         try {
-            const { sound } = await Audio.Sound.createAsync(
+            const { sound, status } = await Audio.Sound.createAsync(
                 trackEntry.file,
-                { shouldPlay: false, volume: 1.0 },
-                this.onPlaybackStatusUpdate
+                {
+                    shouldPlay: false,
+                    volume: getTrackLevel(this.volume, trackEntry),
+                    progressUpdateIntervalMillis: STATUS_INTERVAL_MS,
+                },
+                this.createStatusHandler(trackEntry.id)
             );
-            this.preloadedSounds[trackEntry.id] = sound;
+
+            // Cancelled while loading — nobody wants this sound any more
+            if (token.cancelled) {
+                await sound.unloadAsync();
+                console.log(`Preload cancelled: ${trackEntry.id}`);
+                return false;
+            }
+
+            const durationMillis = status.isLoaded ? status.durationMillis : undefined;
+            const seconds = durationMillis ? durationMillis / 1000 : trackEntry.durationSeconds ?? FALLBACK_DURATION_SECONDS;
+            this.preloadCache.set(trackEntry.id, sound, seconds * BYTES_PER_SECOND);
             console.log(`Preloaded: ${trackEntry.id}`);
+            return true;
         } catch (error) {
             // Preload failures are silent — fall back to normal loading
             console.warn(`Failed to preload ${trackEntry.id}:`, error);
+            return false;
         }
     }
 
-    async loadTrack(trackEntry: TrackEntry): Promise<void> {
+    // Abandons preloads still loading — all of them, or just the given track IDs
+    cancelPreloads(trackIds?: string[]): void {
+        for (const [trackId, inFlight] of this.inFlightPreloads) {
+            if (!trackIds || trackIds.includes(trackId)) {
+                inFlight.token.cancel();
+                this.inFlightPreloads.delete(trackId);
+            }
+        }
+    }
+
+    // Drops cached sounds the caller no longer expects to need
+    evictPreloads(shouldEvict: (trackId: string) => boolean): void {
+        this.preloadCache.evictWhere(shouldEvict);
+    }
+
+    setPreloadBudget(budget: PreloadCacheBudget): void {
+        this.preloadCache.setBudget(budget);
+    }
+
+    getPreloadStats(): PreloadCacheStats {
+        return this.preloadCache.getStats();
+    }
+
+    // Anything still queued for the previous track is abandoned
+    private supersedePlayback(): CancellationToken {
+        this.playbackToken.cancel();
+        this.playbackToken = createCancellationToken();
+        return this.playbackToken;
+    }
+
+    loadTrack(trackEntry: TrackEntry): Promise<void> {
+        const token = this.supersedePlayback();
+        return this.operations.enqueue(`load ${trackEntry.id}`, () => this.performLoad(trackEntry, token), token);
+    }
+
+    private async performLoad(trackEntry: TrackEntry, token: CancellationToken): Promise<void> {
+        // Whatever loads next starts over, so it fades in from silence
+        this.interruptedLevel = null;
         try {
             // Already loaded and active — just rewind
             if (this.currentTrackEntry?.id === trackEntry.id && this.sound) {
                 console.log(`Track ${trackEntry.id} already loaded, rewinding`);
                 await this.sound.setPositionAsync(0);
+                this.positionMillis = 0;
+                this.emitStatus();
                 return;
             }
 
+            // Abandon any fade in progress before swapping sounds
+            await this.cancelCrossfade();
+
             // Unload current track
             if (this.sound) {
                 await this.sound.unloadAsync();
                 this.sound = null;
+                this.currentTrackEntry = null;
+                this.playing = false;
+            }
+
+            // A preload of this very track may still be loading — wait for it
+            // rather than creating a second sound for the same track
+            const inFlight = this.inFlightPreloads.get(trackEntry.id);
+            if (inFlight) {
+                console.log(`Waiting for in-flight preload: ${trackEntry.id}`);
+                await inFlight.promise;
             }
 
             // Use preloaded sound if available — instant
-            if (this.preloadedSounds[trackEntry.id]) {
+            let sound = this.preloadCache.take(trackEntry.id);
+            if (sound) {
                 console.log(`Using preloaded track: ${trackEntry.id}`);
-                this.sound = this.preloadedSounds[trackEntry.id];
-                delete this.preloadedSounds[trackEntry.id];
-                await this.sound.setPositionAsync(0);
+                await sound.setPositionAsync(0);
             } else {
                 // Fall back to loading fresh
                 console.log(`Loading track fresh: ${trackEntry.id}`);
-                const { sound } = await Audio.Sound.createAsync(
+                ({ sound } = await Audio.Sound.createAsync(
                     trackEntry.file,
-                    { shouldPlay: false, volume: 1.0 },
-                    this.onPlaybackStatusUpdate
-                );
-                this.sound = sound;
+                    {
+                        shouldPlay: false,
+                        volume: getTrackLevel(this.volume, trackEntry),
+                        progressUpdateIntervalMillis: STATUS_INTERVAL_MS,
+                    },
+                    this.createStatusHandler(trackEntry.id)
+                ));
             }
 
+            // Superseded while loading — don't leave an orphaned sound behind
+            if (token.cancelled) {
+                await sound.unloadAsync();
+                throw new OperationCancelledError(`load ${trackEntry.id}`);
+            }
+
+            this.startMetering(sound);
+            this.sound = sound;
             this.currentTrackEntry = trackEntry;
             this.playing = false;
+            this.positionMillis = 0;
+            this.durationMillis = await this.readDuration(sound);
+            this.emitStatus();
             console.log(`Loaded track: ${trackEntry.id}`);
 
         } catch (error) {
-            console.error('Error loading track:', error);
+            if (!(error instanceof OperationCancelledError)) {
+                console.error('Error loading track:', error);
+            }
+            throw error;
+        }
+    }
+
+    // Fades from the current track into a new one with both sounds playing at once.
+    // Falls back to a plain load + play when nothing is currently playing.
+    // Only the swap holds the queue — the ramp itself runs alongside it.
+    async crossfadeTo(trackEntry: TrackEntry, options: CrossfadeOptions = DEFAULT_CROSSFADE): Promise<void> {
+        const token = this.supersedePlayback();
+        const fade = await this.operations.enqueue(
+            `crossfade ${trackEntry.id}`,
+            () => this.startCrossfade(trackEntry, token),
+            token
+        );
+        if (!fade) return;
+
+        const completed = await runCrossfade(
+            fade.outgoing,
+            fade.incoming,
+            options,
+            fade.levels,
+            () => fade.generation !== this.fadeGeneration
+        );
+
+        // A superseded fade leaves cleanup to whoever cancelled it
+        if (!completed) return;
+
+        await this.operations.enqueue(`finish crossfade ${trackEntry.id}`, async () => {
+            if (fade.generation !== this.fadeGeneration) return;
+            this.fadingSound = null;
+            await fade.outgoing.unloadAsync();
+            console.log(`Crossfade complete: ${trackEntry.id}`);
+        });
+    }
+
+    // Starts the incoming sound and swaps it in. Returns null when there's nothing to fade.
+    private async startCrossfade(
+        trackEntry: TrackEntry,
+        token: CancellationToken
+    ): Promise<{
+        outgoing: Audio.Sound;
+        incoming: Audio.Sound;
+        generation: number;
+        levels: { outgoing: number; incoming: number };
+    } | null> {
+        if (!this.sound || !this.playing) {
+            await this.performLoad(trackEntry, token);
+            await this.performPlay();
+            return null;
+        }
+
+        // Same track already playing — nothing to fade into
+        if (this.currentTrackEntry?.id === trackEntry.id) return null;
+
+        // A fade already in progress is cut short — its outgoing side goes immediately
+        await this.cancelCrossfade();
+
+        const generation = ++this.fadeGeneration;
+        const outgoing = this.sound;
+        // Outgoing may still be partway through its fade-in — ramp down from where it is
+        const outgoingLevel = await this.readVolume(outgoing, getTrackLevel(this.volume, this.currentTrackEntry));
+
+        let incoming: Audio.Sound;
+        try {
+            // Preloaded sounds let the fade start instantly
+            const preloaded = this.preloadCache.take(trackEntry.id);
+            if (preloaded) {
+                console.log(`Crossfading into preloaded track: ${trackEntry.id}`);
+                incoming = preloaded;
+                await incoming.setPositionAsync(0);
+                await incoming.setVolumeAsync(0);
+            } else {
+                console.log(`Crossfading into fresh track: ${trackEntry.id}`);
+                const { sound } = await Audio.Sound.createAsync(
+                    trackEntry.file,
+                    {
+                        shouldPlay: false,
+                        volume: 0,
+                        progressUpdateIntervalMillis: STATUS_INTERVAL_MS,
+                    },
+                    this.createStatusHandler(trackEntry.id)
+                );
+                incoming = sound;
+            }
+
+            if (token.cancelled) {
+                await incoming.unloadAsync();
+                throw new OperationCancelledError(`crossfade ${trackEntry.id}`);
+            }
+            await incoming.playAsync();
+        } catch (error) {
+            if (!(error instanceof OperationCancelledError)) {
+                console.error('Error starting crossfade:', error);
+            }
             throw error;
         }
+
+        // The outgoing sound keeps metering while it fades — both are audible
+        this.startMetering(incoming);
+        this.sound = incoming;
+        this.fadingSound = outgoing;
+        this.currentTrackEntry = trackEntry;
+        this.playing = true;
+        this.positionMillis = 0;
+        this.durationMillis = await this.readDuration(incoming);
+        this.emitStatus();
+
+        return {
+            outgoing,
+            incoming,
+            generation,
+            levels: { outgoing: outgoingLevel, incoming: getTrackLevel(this.volume, trackEntry) },
+        };
     }
 
-    async play(): Promise<void> {
+    private async cancelCrossfade(): Promise<void> {
+        this.fadeGeneration++;
+        if (!this.fadingSound) return;
+
+        const fading = this.fadingSound;
+        this.fadingSound = null;
+        await fading.unloadAsync();
+
+        // Incoming side may have been left partway up the ramp
+        if (this.sound) {
+            await this.sound.setVolumeAsync(getTrackLevel(this.volume, this.currentTrackEntry));
+        }
+    }
+
+    // Queued behind any pending load, and dropped if that track is superseded first
+    play(): Promise<void> {
+        return this.operations.enqueue('play', () => this.performPlay(), this.playbackToken);
+    }
+
+    // Starts from silence and swells up to the track's level. Only the start
+    // holds the queue — the ramp runs alongside, like a crossfade.
+    private async performPlay(): Promise<void> {
         if (!this.sound) throw new Error('No track loaded');
-        await this.sound.playAsync();
+        const sound = this.sound;
+        const from = this.interruptedLevel ?? 0;
+        this.interruptedLevel = null;
+        await sound.setVolumeAsync(from);
+        await sound.playAsync();
         this.playing = true;
+        this.emitStatus();
         console.log('Playing track');
+
+        const generation = ++this.fadeGeneration;
+        rampVolume(
+            sound,
+            from,
+            getTrackLevel(this.volume, this.currentTrackEntry),
+            this.envelope.fadeInMs,
+            () => generation !== this.fadeGeneration || this.sound !== sound
+        ).catch(error => {
+            console.warn('Fade-in interrupted:', error);
+        });
     }
 
-    async pause(): Promise<void> {
-        if (!this.sound) return;
-        await this.sound.pauseAsync();
-        this.playing = false;
-        console.log('Paused track');
+    pause(): Promise<void> {
+        return this.operations.enqueue('pause', async () => {
+            // A fade still running would keep the outgoing track audible, and
+            // a fade-in would keep ramping a paused sound
+            await this.cancelCrossfade();
+            if (!this.sound) return;
+            // Cleared first so the status callback doesn't read our own pause as an interruption
+            this.playing = false;
+            // A deliberate pause fades back in as usual
+            this.interruptedLevel = null;
+            await this.sound.pauseAsync();
+            this.emitStatus();
+            console.log('Paused track');
+        });
     }
 
-    async stop(): Promise<void> {
-        if (!this.sound) return;
-        await this.sound.stopAsync();
-        this.playing = false;
-        console.log('Stopped track');
+    stop(): Promise<void> {
+        // Loads and plays queued before the stop must not start anything afterwards
+        this.supersedePlayback();
+        return this.operations.enqueue('stop', async () => {
+            await this.cancelCrossfade();
+            if (!this.sound) return;
+
+            // Fade out rather than cut — only worth the wait if something is audible
+            if (this.playing) {
+                const from = await this.readVolume(this.sound, getTrackLevel(this.volume, this.currentTrackEntry));
+                await rampVolume(this.sound, from, 0, this.envelope.fadeOutMs);
+            }
+            this.playing = false;
+            this.interruptedLevel = null;
+            await this.sound.stopAsync();
+            this.positionMillis = 0;
+            this.emitStatus();
+            console.log('Stopped track');
+        });
     }
 
     async setVolume(volume: number): Promise<void> {
+        this.volume = Math.max(0, Math.min(1, volume));
         if (!this.sound) return;
-        await this.sound.setVolumeAsync(Math.max(0, Math.min(1, volume)));
+        await this.sound.setVolumeAsync(getTrackLevel(this.volume, this.currentTrackEntry));
+    }
+
+    setVolumeEnvelope(envelope: VolumeEnvelope): void {
+        this.envelope = envelope;
     }
 
     isPlaying(): boolean {
         return this.playing;
     }
 
-    async cleanup(): Promise<void> {
-        if (this.sound) {
-            await this.sound.unloadAsync();
-            this.sound = null;
-        }
+    cleanup(): Promise<void> {
+        this.supersedePlayback();
+        this.cancelPreloads();
+        return this.operations.enqueue('cleanup', async () => {
+            await this.cancelCrossfade();
+            this.playing = false;
+            if (this.sound) {
+                await this.sound.unloadAsync();
+                this.sound = null;
+            }
 
-        // Clean up all preloaded sounds
-        for (const trackId in this.preloadedSounds) {
-            await this.preloadedSounds[trackId].unloadAsync();
-        }
-        this.preloadedSounds = {};
+            // Clean up all preloaded sounds
+            for (const sound of this.preloadCache.drain()) {
+                await sound.unloadAsync();
+            }
+            this.playing = false;
+            this.currentTrackEntry = null;
+            this.positionMillis = 0;
+            this.durationMillis = null;
+            this.emitStatus();
+            console.log('LocalAudioProvider cleaned up');
+        });
+    }
+
+    syncStatus(): Promise<void> {
+        return this.operations.enqueue('sync status', async () => {
+            if (!this.sound) return;
+            this.applyStatus(this.currentTrackEntry?.id ?? null, await this.sound.getStatusAsync());
+        });
+    }
+
+    // The system paused the sound behind our back. expo-av keeps shouldPlay set,
+    // so it would start again by itself once focus returns — pausing properly
+    // leaves the decision to resume with the listener. The sound keeps its
+    // position, and any half-finished fade is settled at the current volume.
+    private handleInterruption(): void {
         this.playing = false;
-        console.log('LocalAudioProvider cleaned up');
+        console.log('Playback interrupted');
+        this.emitStatus(false, true);
+
+        this.operations.enqueue('interruption', async () => {
+            await this.cancelCrossfade();
+            if (this.playing || !this.sound) return;
+            this.interruptedLevel = await this.readVolume(this.sound, getTrackLevel(this.volume, this.currentTrackEntry));
+            await this.sound.pauseAsync();
+        }).catch(error => {
+            console.warn('Failed to settle interrupted playback:', error);
+        });
     }
 
     getCurrentTrack(): TrackEntry | null {
         return this.currentTrackEntry ?? null;
     }
 
-    private onPlaybackStatusUpdate = (status: AVPlaybackStatus) => {
+    getPositionMillis(): number {
+        return this.positionMillis;
+    }
+
+    getDurationMillis(): number | null {
+        return this.durationMillis;
+    }
+
+    setOnStatusUpdate(listener: PlaybackStatusListener | null): void {
+        this.statusListener = listener;
+    }
+
+    setOnAmplitude(listener: AmplitudeListener | null): void {
+        this.amplitudeListener = listener;
+    }
+
+    private startMetering(sound: Audio.Sound): void {
+        try {
+            sound.setOnAudioSampleReceived(sample => {
+                this.loudestSample = Math.max(this.loudestSample, measureSampleLevel(sample));
+            });
+        } catch (error) {
+            // Web has no sample buffers — visuals just run without a meter
+            console.warn('Audio metering unavailable:', error);
+        }
+    }
+
+    // One meter reading per status update of the current sound
+    private publishAmplitude(): void {
+        this.amplitude = smoothLevel(this.amplitude, this.playing ? this.loudestSample : 0);
+        this.loudestSample = 0;
+        this.amplitudeListener?.(this.amplitude);
+    }
+
+    private emitStatus(didJustFinish: boolean = false, interrupted: boolean = false): void {
+        // Status updates stop with playback — drop the meter rather than leave it at the last reading
+        if (!this.playing && this.amplitude > 0) {
+            this.amplitude = 0;
+            this.amplitudeListener?.(0);
+        }
+
+        this.statusListener?.({
+            track: this.currentTrackEntry,
+            isPlaying: this.playing,
+            positionMillis: this.positionMillis,
+            durationMillis: this.durationMillis,
+            didJustFinish,
+            interrupted,
+        });
+    }
+
+    private async readVolume(sound: Audio.Sound, fallback: number): Promise<number> {
+        const status = await sound.getStatusAsync();
+        return status.isLoaded ? status.volume : fallback;
+    }
+
+    private async readDuration(sound: Audio.Sound): Promise<number | null> {
+        const status = await sound.getStatusAsync();
+        return status.isLoaded ? status.durationMillis ?? null : null;
+    }
+
+    // Each sound gets its own handler so events from a preloaded or
+    // fading-out sound are never mistaken for the active track
+    private createStatusHandler(trackId: string) {
+        return (status: AVPlaybackStatus) => this.applyStatus(trackId, status);
+    }
+
+    private applyStatus(trackId: string | null, status: AVPlaybackStatus): void {
         if (!status.isLoaded) return;
-        if (status.didJustFinish) {
+        if (trackId === null || this.currentTrackEntry?.id !== trackId) return;
+
+        this.positionMillis = status.positionMillis;
+        this.durationMillis = status.durationMillis ?? this.durationMillis;
+
+        if (status.didJustFinish && !status.isLooping) {
             this.playing = false;
             console.log('Track finished playing');
+            this.emitStatus(true);
+            return;
+        }
+
+        // Still meant to be playing, yet not — the system stepped in
+        if (this.playing && status.shouldPlay && !status.isPlaying && !status.isBuffering) {
+            this.handleInterruption();
+            return;
         }
-    };
-}
\ No newline at end of file
+
+        this.publishAmplitude();
+        this.emitStatus();
+    }
+}
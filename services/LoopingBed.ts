@@ -0,0 +1,133 @@
+// LoopingBed.ts
+// A single looping sound beside the music — the shared core of the ambience
+// channel and the entrainment layer. Owners say what should be sounding; the
+// bed loads, fades and swaps its own Audio.Sound to match, one step at a time
+// on its own queue.
+
+import { Audio } from 'expo-av';
+import { File, Paths } from 'expo-file-system';
+import { AudioOperationQueue } from './AudioOperationQueue';
+import { VolumeEnvelope, rampVolume, runCrossfade } from './Crossfade';
+import type { PcmBuffer } from './ToneGenerator';
+import { encodeWav } from './WavEncoder';
+
+export interface LoopingBedOptions<T> {
+    // Used in queue labels and warnings
+    name: string;
+    isSame: (a: T | null, b: T | null) => boolean;
+    // Anything Audio.Sound.createAsync accepts
+    getSource: (item: T) => any;
+    // Read on every fade, so volume and envelope changes apply from the next one
+    getVolume: () => number;
+    getEnvelope: () => VolumeEnvelope;
+    // Blends into a new item while playing instead of fading out and back in
+    crossfadeMs?: number;
+}
+
+// Synthesised audio is generated once and reused from the cache directory
+export const getCachedWavSource = (fileName: string, generate: () => PcmBuffer): { uri: string } => {
+    const file = new File(Paths.cache, fileName);
+    if (!file.exists) {
+        const pcm = generate();
+        file.write(encodeWav(pcm.samples, pcm.sampleRate, pcm.channels));
+        console.log(`Generated ${fileName}`);
+    }
+    return { uri: file.uri };
+};
+
+export class LoopingBed<T> {
+    // What should be sounding, updated synchronously on every call
+    private wanted: T | null = null;
+    private wantedPlaying = false;
+    // What is actually loaded and sounding
+    private current: T | null = null;
+    private sound: Audio.Sound | null = null;
+    private playing = false;
+    private operations = new AudioOperationQueue();
+
+    constructor(private options: LoopingBedOptions<T>) {}
+
+    // Cheap when nothing changed, so owners can call it on every status update
+    update(item: T | null, playing: boolean): void {
+        const shouldPlay = item !== null && playing;
+        if (this.options.isSame(item, this.wanted) && shouldPlay === this.wantedPlaying) return;
+
+        this.wanted = item;
+        this.wantedPlaying = shouldPlay;
+        // Each queued apply works towards the latest wanted state, so bursts of updates settle quickly
+        this.operations.enqueue(this.options.name, () => this.apply()).catch(error => {
+            console.warn(`Failed to update ${this.options.name}:`, error);
+        });
+    }
+
+    // Brings a sounding bed to the current getVolume()
+    async applyVolume(): Promise<void> {
+        if (this.sound && this.playing) {
+            await this.sound.setVolumeAsync(this.options.getVolume());
+        }
+    }
+
+    cleanup(): Promise<void> {
+        this.wanted = null;
+        this.wantedPlaying = false;
+        return this.operations.enqueue(`${this.options.name} cleanup`, () => this.apply());
+    }
+
+    private async apply(): Promise<void> {
+        if (!this.options.isSame(this.wanted, this.current)) {
+            if (this.options.crossfadeMs && this.wanted && this.wantedPlaying && this.playing && this.sound) {
+                await this.crossfade(this.sound, this.wanted, this.options.crossfadeMs);
+            } else {
+                await this.unload();
+                if (this.wanted) {
+                    this.sound = await this.load(this.wanted);
+                    this.current = this.wanted;
+                }
+            }
+        }
+        if (!this.sound) return;
+
+        if (this.wantedPlaying && !this.playing) {
+            await this.sound.setVolumeAsync(0);
+            await this.sound.playAsync();
+            this.playing = true;
+            await rampVolume(this.sound, 0, this.options.getVolume(), this.options.getEnvelope().fadeInMs);
+        } else if (!this.wantedPlaying && this.playing) {
+            await this.fadeOut(this.sound);
+            await this.sound.pauseAsync();
+        }
+    }
+
+    private async crossfade(outgoing: Audio.Sound, item: T, durationMs: number): Promise<void> {
+        const incoming = await this.load(item);
+        await incoming.playAsync();
+        this.sound = incoming;
+        this.current = item;
+
+        const volume = this.options.getVolume();
+        await runCrossfade(outgoing, incoming, { durationMs, curve: 'equal-power' }, { outgoing: volume, incoming: volume });
+        await outgoing.unloadAsync();
+    }
+
+    private async fadeOut(sound: Audio.Sound): Promise<void> {
+        this.playing = false;
+        await rampVolume(sound, this.options.getVolume(), 0, this.options.getEnvelope().fadeOutMs);
+    }
+
+    private async unload(): Promise<void> {
+        const sound = this.sound;
+        if (!sound) return;
+        if (this.playing) await this.fadeOut(sound);
+        this.sound = null;
+        this.current = null;
+        await sound.unloadAsync();
+    }
+
+    private async load(item: T): Promise<Audio.Sound> {
+        const { sound } = await Audio.Sound.createAsync(
+            this.options.getSource(item),
+            { shouldPlay: false, isLooping: true, volume: 0 }
+        );
+        return sound;
+    }
+}
@@ -0,0 +1,15 @@
+// Loudness.ts
+// Turns the user's master volume and a track's gainDb into the volume a
+// sound actually plays at, so tracks mastered at different levels sit
+// at a similar perceived loudness.
+
+import type { TrackEntry } from './TrackRegistry';
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+// Players can't go above full volume, so positive gains are capped there —
+// manifests normalize best by turning loud tracks down, not quiet ones up
+export const getTrackLevel = (masterVolume: number, track: TrackEntry | null): number => {
+    const gain = dbToGain(track?.gainDb ?? 0);
+    return Math.max(0, Math.min(1, masterVolume * gain));
+};
@@ -0,0 +1,116 @@
+// MediaSession.ts
+// Publishes what's playing to the lock screen and the Android media
+// notification, and routes the buttons there back into MusicServiceManager.
+// Playback itself stays with the provider — this only mirrors it.
+
+import MusicControl, { Command } from 'react-native-music-control';
+import { MusicServiceManager } from './MusicServiceManager';
+import { TrackRegistry, TrackEntry } from './TrackRegistry';
+
+// 'warm-high' → 'Warm · High'
+export const formatCategoryLabel = (category: string): string =>
+    category
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' · ');
+
+export class MediaSession {
+    private unsubscribers: (() => void)[] = [];
+    private publishedTrackId: string | null = null;
+    private publishedPlaying: boolean | null = null;
+
+    constructor(private musicService: MusicServiceManager) {}
+
+    start(): void {
+        if (this.unsubscribers.length > 0) return;
+
+        MusicControl.enableBackgroundMode(true);
+        // MusicServiceManager already handles interruptions — two handlers would fight
+        MusicControl.handleAudioInterruptions(false);
+
+        MusicControl.enableControl('play', true);
+        MusicControl.enableControl('pause', true);
+        MusicControl.enableControl('nextTrack', true);
+        MusicControl.enableControl('stop', true);
+        MusicControl.enableControl('previousTrack', false);
+        MusicControl.enableControl('closeNotification', true, { when: 'paused' });
+
+        MusicControl.on(Command.play, () => this.run('resume', () => this.musicService.resume()));
+        MusicControl.on(Command.pause, () => this.run('pause', () => this.musicService.pause()));
+        MusicControl.on(Command.nextTrack, () => this.run('skip', () => this.musicService.skip()));
+        MusicControl.on(Command.stop, () => this.run('stop', () => this.musicService.stop()));
+        MusicControl.on(Command.closeNotification, () => this.run('stop', () => this.musicService.stop()));
+
+        this.unsubscribers = [
+            this.musicService.subscribe('trackChanged', ({ track }) => this.publishTrack(track)),
+            this.musicService.subscribe('positionUpdate', (update) => {
+                // Nothing left to control once the session has been stopped
+                if (!update.isPlaying && this.musicService.getSessionCategory() === null) {
+                    this.clear();
+                    return;
+                }
+                this.publishPlayback(update.isPlaying, update.positionMillis);
+            }),
+        ];
+
+        this.publishTrack(this.musicService.getCurrentTrack());
+        console.log('Media session started');
+    }
+
+    stop(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        MusicControl.stopControl();
+        this.publishedTrackId = null;
+        this.publishedPlaying = null;
+        console.log('Media session stopped');
+    }
+
+    private publishTrack(track: TrackEntry | null): void {
+        if (!track) {
+            this.clear();
+            return;
+        }
+
+        const category = TrackRegistry.getCategoryForTrack(track.id) ?? this.musicService.getSessionCategory();
+        const energyLabel = category ? formatCategoryLabel(category) : 'EntheosNow';
+        const durationSeconds = track.durationSeconds
+            ?? (this.musicService.getDurationMillis() ?? 0) / 1000;
+
+        MusicControl.setNowPlaying({
+            // Tracks without metadata still say what they are — the energy they were picked for
+            title: track.title ?? energyLabel,
+            artist: track.artist ?? (track.title ? energyLabel : 'EntheosNow'),
+            album: track.license ?? '',
+            duration: durationSeconds,
+            elapsedTime: 0,
+        });
+        this.publishedTrackId = track.id;
+        this.publishedPlaying = null;
+    }
+
+    // Lock screens extrapolate elapsed time themselves, so only state changes need pushing
+    private publishPlayback(isPlaying: boolean, positionMillis: number): void {
+        if (!this.publishedTrackId || this.publishedPlaying === isPlaying) return;
+
+        MusicControl.updatePlayback({
+            state: isPlaying ? MusicControl.STATE_PLAYING : MusicControl.STATE_PAUSED,
+            elapsedTime: positionMillis / 1000,
+        });
+        this.publishedPlaying = isPlaying;
+    }
+
+    private clear(): void {
+        if (!this.publishedTrackId) return;
+        MusicControl.resetNowPlaying();
+        this.publishedTrackId = null;
+        this.publishedPlaying = null;
+    }
+
+    // Commands arrive from outside the app — failures are logged, not thrown
+    private run(action: string, command: () => Promise<void>): void {
+        command().catch(error => {
+            console.error(`Media control ${action} failed:`, error);
+        });
+    }
+}
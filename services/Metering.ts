@@ -0,0 +1,32 @@
+// Metering.ts
+// Live loudness from the PCM buffers expo-av hands over during playback.
+// Visuals want a steady 0–1 level: quick to rise on a hit, slower to fall so
+// rings don't flicker between buffers.
+
+import type { Audio } from 'expo-av';
+
+// Anything quieter than this reads as silence
+const FLOOR_DB = -50;
+
+// Fraction of the gap closed per update
+const ATTACK = 0.6;
+const RELEASE = 0.12;
+
+// RMS across all channels, mapped from FLOOR_DB..0 dBFS onto 0..1
+export const measureSampleLevel = (sample: Audio.AudioSample): number => {
+    let sum = 0;
+    let count = 0;
+    for (const channel of sample.channels) {
+        for (const frame of channel.frames) {
+            sum += frame * frame;
+        }
+        count += channel.frames.length;
+    }
+    if (count === 0) return 0;
+
+    const db = 10 * Math.log10(sum / count + 1e-12);
+    return Math.max(0, Math.min(1, (db - FLOOR_DB) / -FLOOR_DB));
+};
+
+export const smoothLevel = (previous: number, next: number): number =>
+    previous + (next - previous) * (next > previous ? ATTACK : RELEASE);
@@ -1,17 +1,58 @@
 import { TrackEntry } from './TrackRegistry';
+import { CrossfadeOptions, VolumeEnvelope } from './Crossfade';
+import { PreloadCacheBudget, PreloadCacheStats } from './PreloadCache';
+
+// Snapshot of what a provider is doing — pushed on every status change
+export interface PlaybackStatus {
+    track: TrackEntry | null;
+    isPlaying: boolean;
+    positionMillis: number;
+    durationMillis: number | null;
+    didJustFinish: boolean;
+    // The system paused playback without being asked — a call, another app
+    // taking audio focus, headphones being unplugged
+    interrupted?: boolean;
+}
+
+export type PlaybackStatusListener = (status: PlaybackStatus) => void;
+
+// Smoothed loudness of what's playing, 0–1
+export type AmplitudeListener = (amplitude: number) => void;
 
 // Abstract interface for all music providers
 export interface MusicProvider {
     name: string;
     initialize(): Promise<void>;
-    loadTrack(trackId: string): Promise<void>;
+    loadTrack(trackEntry: TrackEntry): Promise<void>;
     play(): Promise<void>;
     pause(): Promise<void>;
     stop(): Promise<void>;
+    // Master volume, 0–1 — providers that know track gain apply it on top
     setVolume(volume: number): Promise<void>;
     isPlaying(): boolean;
     cleanup(): Promise<void>;
-    preloadTrack?(trackEntry: TrackEntry): Promise<void>;
+    getCurrentTrack(): TrackEntry | null;
+    getPositionMillis(): number;
+    getDurationMillis(): number | null;
+    // One listener per provider — the manager fans events out from there
+    setOnStatusUpdate(listener: PlaybackStatusListener | null): void;
+    // Providers with their own catalog pick tracks themselves — others use TrackRegistry
+    selectTrack?(category: string): Promise<TrackEntry | null>;
+    // Resolves true once the track is ready to start instantly
+    preloadTrack?(trackEntry: TrackEntry): Promise<boolean>;
+    crossfadeTo?(trackEntry: TrackEntry, options?: CrossfadeOptions): Promise<void>;
+    // Fade-in on play and fade-out on stop — providers without volume ramps ignore it
+    setVolumeEnvelope?(envelope: VolumeEnvelope): void;
+    // Preload cache controls — only providers that hold decoded audio need them
+    cancelPreloads?(trackIds?: string[]): void;
+    evictPreloads?(shouldEvict: (trackId: string) => boolean): void;
+    setPreloadBudget?(budget: PreloadCacheBudget): void;
+    getPreloadStats?(): PreloadCacheStats;
+    // Re-reads native playback state after the app comes back to the foreground,
+    // reporting an interruption if playback stopped while nobody was listening
+    syncStatus?(): Promise<void>;
+    // Live loudness feed — only providers with access to the decoded audio can meter
+    setOnAmplitude?(listener: AmplitudeListener | null): void;
 }
 
 export interface Track {
@@ -21,4 +62,4 @@ export interface Track {
     intensityLevel: 'low' | 'medium' | 'high';
     artist?: string;
     duration?: number;
-}
\ No newline at end of file
+}
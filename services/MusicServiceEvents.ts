@@ -0,0 +1,70 @@
+// MusicServiceEvents.ts
+// Typed events published by MusicServiceManager.
+// Screens subscribe to what they need instead of polling the manager.
+
+import { TrackEntry } from './TrackRegistry';
+import type { SessionSummary } from './SessionHistory';
+import type { ProgramState } from './IntensityProgram';
+
+// Why playback stopped without the listener asking
+//   interruption — the system paused us while the app was away (a call, usually)
+//   route-change — the system paused us in the foreground (headphones unplugged, usually)
+//   background   — the app left the foreground with the 'pause' background behaviour
+export type InterruptionReason = 'interruption' | 'route-change' | 'background';
+
+export interface MusicServiceEventMap {
+    trackChanged: { track: TrackEntry | null };
+    positionUpdate: { positionMillis: number; durationMillis: number | null; isPlaying: boolean };
+    ended: { track: TrackEntry };
+    error: { error: unknown; context: string };
+    preloaded: { track: TrackEntry };
+    // A track wouldn't load and another took its place — worth a quiet notice
+    trackFallback: { failed: TrackEntry; fallback: TrackEntry };
+    providerChanged: { name: string };
+    interrupted: { reason: InterruptionReason; track: TrackEntry; positionMillis: number };
+    resumed: { track: TrackEntry };
+    // A timed session is in its last stretch
+    sessionEnding: { remainingMillis: number };
+    sessionEnded: { summary: SessionSummary };
+    // Published continuously while an intensity program runs
+    programUpdate: ProgramState & { programId: string };
+    // Live loudness of the current track, 0–1, many times a second.
+    // Silent for providers that can't meter.
+    amplitude: { level: number };
+}
+
+export type MusicServiceEvent = keyof MusicServiceEventMap;
+
+export type MusicServiceListener<E extends MusicServiceEvent> = (payload: MusicServiceEventMap[E]) => void;
+
+export class MusicServiceEventHub {
+    // Payload types are enforced at subscribe/emit — storage can stay loose
+    private listeners: Partial<Record<MusicServiceEvent, Set<(payload: any) => void>>> = {};
+
+    // Returns an unsubscribe function — handy as a useEffect cleanup
+    subscribe<E extends MusicServiceEvent>(event: E, listener: MusicServiceListener<E>): () => void {
+        const listeners = this.listeners[event] ?? new Set();
+        listeners.add(listener);
+        this.listeners[event] = listeners;
+        return () => this.unsubscribe(event, listener);
+    }
+
+    unsubscribe<E extends MusicServiceEvent>(event: E, listener: MusicServiceListener<E>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    emit<E extends MusicServiceEvent>(event: E, payload: MusicServiceEventMap[E]): void {
+        const listeners = this.listeners[event];
+        if (!listeners) return;
+
+        // Copy first so a listener can unsubscribe itself mid-emit
+        for (const listener of [...listeners]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                // One broken screen shouldn't stop the others hearing about playback
+                console.error(`Music service listener for ${event} threw:`, error);
+            }
+        }
+    }
+}
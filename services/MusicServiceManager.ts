@@ -1,10 +1,102 @@
-import { MusicProvider } from './MusicProvider';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { MusicProvider, PlaybackStatus } from './MusicProvider';
 import { LocalAudioProvider } from './LocalAudioProvider';
 import { TrackRegistry, TrackEntry } from './TrackRegistry';
+import { CrossfadeOptions, DEFAULT_CROSSFADE, VolumeEnvelope } from './Crossfade';
+import { SpotifyProvider, SpotifyProviderConfig } from './SpotifyProvider';
+import { INTENSITY_BANDS, IntensityLevel, getIntensityLevel, getNeighbouringLevels, getTrackEnergy } from './EnergyMatcher';
+import { PreloadCacheBudget, PreloadCacheStats } from './PreloadCache';
+import { TrackPreference } from './SelectionStore';
+import { InterruptionReason, MusicServiceEvent, MusicServiceEventHub, MusicServiceListener } from './MusicServiceEvents';
+import { OperationCancelledError } from './AudioOperationQueue';
+import { SessionTimer } from './SessionTimer';
+import { SessionHistory, SessionSummary } from './SessionHistory';
+import { PlaybackSettings } from './PlaybackSettings';
+import { IntensityProgram, evaluateProgram, getProgramDurationMillis } from './IntensityProgram';
+import { EntrainmentLayer, EntrainmentSettings } from './EntrainmentLayer';
+import { AudioMixer, ChannelSettings, MixerChannel } from './AudioMixer';
+import { AmbienceEntry, AmbienceRegistry } from './AmbienceRegistry';
+
+// How a session continues once the current track ends
+export type SessionMode = 'stay-in-category' | 'repeat-track';
+
+// How intensity picks tracks — 'energy' matches the exact intensity against
+// per-track energy scores; 'bucket' is the original low/medium/high split
+export type MatchingMode = 'energy' | 'bucket';
+
+// What happens to the music when the app leaves the foreground
+export type BackgroundBehavior = 'keep-playing' | 'pause';
+
+// Playback the system (or backgrounding) paused — kept so it can be resumed
+export interface Interruption {
+    reason: InterruptionReason;
+    track: TrackEntry;
+    positionMillis: number;
+}
+
+// How often a running program re-evaluates — the visualizer animates between updates
+export const PROGRAM_TICK_MS = 500;
+
+// In energy mode, a retune only moves tracks once the current one is this far off
+const RETUNE_DISTANCE = 0.15;
+
+// Further attempts at a track that failed to load before falling back to another
+const LOAD_RETRIES = 1;
+
+interface PlaybackSession {
+    energyType: 'warm' | 'cool';
+    intensity: number;
+    category: string;
+    // Next track, already handed to the provider for preloading
+    upNext: TrackEntry | null;
+}
+
+// Everything the summary needs, gathered while a session runs
+interface SessionRecord {
+    energyType: 'warm' | 'cool';
+    intensity: number;
+    startedAt: number;
+    tracks: SessionSummary['tracks'];
+    timer: SessionTimer;
+    program: RunningProgram | null;
+}
+
+interface RunningProgram {
+    definition: IntensityProgram;
+    keyframeIndex: number;
+    ticker: ReturnType<typeof setInterval>;
+}
 
 export class MusicServiceManager {
     private static instance: MusicServiceManager;
     private activeProvider: MusicProvider | null = null;
+    private crossfadeOptions: CrossfadeOptions = DEFAULT_CROSSFADE;
+    // Music and ambience channels under the master volume
+    private mixer = new AudioMixer();
+    private session: PlaybackSession | null = null;
+    private sessionMode: SessionMode = 'stay-in-category';
+    private matchingMode: MatchingMode = 'energy';
+    private events = new MusicServiceEventHub();
+    // Last track reported to subscribers — trackChanged only fires on a real change
+    private reportedTrackId: string | null = null;
+    // Energy side the preload cache is currently filled for
+    private preloadedEnergyState: 'warm' | 'cool' | null = null;
+    // Null leaves each provider on its own default
+    private preloadBudget: PreloadCacheBudget | null = null;
+    // Set while playback sits paused waiting for the listener to resume it
+    private interruption: Interruption | null = null;
+    private backgroundBehavior: BackgroundBehavior = 'keep-playing';
+    private appState: AppStateStatus = AppState.currentState;
+    private appStateSubscription: NativeEventSubscription | null = null;
+    private sessionRecord: SessionRecord | null = null;
+    private sessionHistory = new SessionHistory();
+    private settings = new PlaybackSettings();
+    // Tone layer under the music — follows the session, whichever provider plays it
+    private entrainment = new EntrainmentLayer();
+    // Ambience picked for each energy state — none until the listener chooses one
+    private ambienceChoices: Record<'warm' | 'cool', string | null> = { warm: null, cool: null };
+    // Set while an ambience-only session runs — there is no music session alongside it
+    private ambienceSession: { energyType: 'warm' | 'cool'; paused: boolean } | null = null;
 
     private constructor() {}
 
@@ -22,10 +114,62 @@ export class MusicServiceManager {
             return;
         }
 
-        const provider = new LocalAudioProvider();
+        await this.switchProvider(new LocalAudioProvider());
+    }
+
+    async initializeSpotifyProvider(config: SpotifyProviderConfig): Promise<void> {
+        await this.switchProvider(new SpotifyProvider(config));
+    }
+
+    // Swaps the active provider at runtime. The new provider is initialized
+    // before the old one is torn down, so a failed sign-in leaves music untouched.
+    // A running session carries over to the new provider.
+    async switchProvider(provider: MusicProvider): Promise<void> {
         await provider.initialize();
+
+        const previous = this.activeProvider;
+        const wasPlaying = previous?.isPlaying() ?? false;
+        const session = this.session;
+
+        // Detached after cleanup so subscribers still hear the old track go away
+        if (previous) {
+            await previous.cleanup();
+            previous.setOnStatusUpdate(null);
+            previous.setOnAmplitude?.(null);
+        }
+
+        provider.setOnStatusUpdate(this.handleStatusUpdate);
+        provider.setOnAmplitude?.(this.handleAmplitude);
+        if (this.preloadBudget) provider.setPreloadBudget?.(this.preloadBudget);
+        try {
+            await this.mixer.attachMusic(provider);
+        } catch (error) {
+            // Remote players may have no device yet — the volume applies on the next change
+            console.warn('Failed to apply master volume:', error);
+        }
         this.activeProvider = provider;
-        console.log('Music service initialized with LocalAudioProvider');
+        this.preloadedEnergyState = null;
+        this.interruption = null;
+        this.watchAppState();
+        this.events.emit('providerChanged', { name: provider.name });
+        console.log(`Music service initialized with ${provider.name} provider`);
+
+        if (session && wasPlaying) {
+            await this.startSession(session.energyType, session.intensity);
+        }
+    }
+
+    getProviderName(): string | null {
+        return this.activeProvider?.name ?? null;
+    }
+
+    // Returns an unsubscribe function — call it on unmount
+    subscribe<E extends MusicServiceEvent>(event: E, listener: MusicServiceListener<E>): () => void {
+        return this.events.subscribe(event, listener);
+    }
+
+    unsubscribe<E extends MusicServiceEvent>(event: E, listener: MusicServiceListener<E>): void {
+        this.events.unsubscribe(event, listener);
     }
 
     // Preloads all tracks for an energy state in parallel
@@ -33,15 +177,27 @@ export class MusicServiceManager {
     async preloadTracksForState(energyState: 'warm' | 'cool'): Promise<void> {
         if (!this.activeProvider?.preloadTrack) return;
 
-        const categories = TrackRegistry.getCategoriesForEnergyState(energyState);
+        // Switching sides — the other side's sounds won't be needed soon
+        if (this.preloadedEnergyState && this.preloadedEnergyState !== energyState) {
+            this.activeProvider.cancelPreloads?.();
+            this.activeProvider.evictPreloads?.(trackId =>
+                !TrackRegistry.getCategoryForTrack(trackId)?.startsWith(`${energyState}-`)
+            );
+        }
+        this.preloadedEnergyState = energyState;
+
+        const levels = Object.keys(INTENSITY_BANDS) as IntensityLevel[];
 
-        // For each category, pick a random track and preload it
+        // For each intensity band, pick a track from its midpoint and preload it
         // Promise.all fires all preloads simultaneously rather than sequentially
         await Promise.all(
-            categories.map(async (category) => {
-                const track = TrackRegistry.selectTrack(category);
+            levels.map(async (level) => {
+                const band = INTENSITY_BANDS[level];
+                const track = await this.selectTrack(energyState, (band.min + band.max) / 2);
                 if (track && this.activeProvider?.preloadTrack) {
-                    await this.activeProvider.preloadTrack(track);
+                    if (await this.activeProvider.preloadTrack(track)) {
+                        this.events.emit('preloaded', { track });
+                    }
                 }
             })
         );
@@ -50,39 +206,712 @@ export class MusicServiceManager {
     }
 
     async playForState(energyType: 'warm' | 'cool', intensity: number): Promise<void> {
+        await this.startSession(energyType, intensity);
+    }
+
+    // Starts a listening session as confirmed on the intensity screen. With a
+    // duration, tracks keep coming until the timer runs out, then the music
+    // fades to silence and a summary is published. Without one it runs until stopped.
+    async beginSession(energyType: 'warm' | 'cool', intensity: number, durationMillis: number | null = null): Promise<void> {
+        this.openSessionRecord(energyType, intensity, durationMillis);
+        await this.playOpenedSession(energyType, intensity);
+    }
+
+    // Runs a program from its first keyframe. The session lasts as long as the
+    // program; intensity follows the timeline, and tracks change category at
+    // each keyframe boundary.
+    async beginProgram(program: IntensityProgram): Promise<void> {
+        const start = evaluateProgram(program, 0);
+        const record = this.openSessionRecord(start.energyState, start.intensity, getProgramDurationMillis(program));
+        record.program = {
+            definition: program,
+            keyframeIndex: start.keyframeIndex,
+            ticker: setInterval(this.tickProgram, PROGRAM_TICK_MS),
+        };
+        console.log(`Starting program: ${program.name}`);
+        this.events.emit('programUpdate', { ...start, programId: program.id });
+
+        await this.playOpenedSession(start.energyState, start.intensity);
+    }
+
+    // A session with no music — just the ambience picked for this energy state,
+    // or the first in its catalog. Timed and recorded like any other session;
+    // anything already playing fades out.
+    async beginAmbienceSession(energyType: 'warm' | 'cool', intensity: number, durationMillis: number | null = null): Promise<void> {
+        const entry = this.getAmbienceEntry(energyType, true);
+        if (!entry) {
+            throw new Error(`No ambience available for ${energyType}`);
+        }
+
+        const record = this.openSessionRecord(energyType, intensity, durationMillis, 'ambience');
+        this.session = null;
+        this.interruption = null;
+        this.cancelPreloads();
+        this.ambienceSession = { energyType, paused: false };
+        if (this.activeProvider?.isPlaying()) await this.activeProvider.stop();
+
+        // No provider status to follow, so the clock runs from here
+        record.timer.resume();
+        this.syncAmbience(false);
+        console.log(`Starting ambience-only session: ${entry.id}`);
+    }
+
+    private openSessionRecord(
+        energyType: 'warm' | 'cool',
+        intensity: number,
+        durationMillis: number | null,
+        channel: MixerChannel = 'music'
+    ): SessionRecord {
+        this.closeSessionRecord(false);
+        // Tracks that failed last session get another chance
+        TrackRegistry.clearQuarantine();
+
+        // The clock follows playback status — it only runs while music is audible
+        const timer = new SessionTimer(durationMillis, this.mixer.getChannel(channel).envelope.fadeOutMs, {
+            onWindDown: (remainingMillis) => this.events.emit('sessionEnding', { remainingMillis }),
+            onFadeOut: () => this.finishTimedSession(),
+        });
+        this.sessionRecord = { energyType, intensity, startedAt: Date.now(), tracks: [], timer, program: null };
+        return this.sessionRecord;
+    }
+
+    private async playOpenedSession(energyType: 'warm' | 'cool', intensity: number): Promise<void> {
+        const record = this.sessionRecord;
+        try {
+            await this.playForState(energyType, intensity);
+        } catch (error) {
+            // Nothing played — not worth a place in the history
+            if (record && this.sessionRecord === record) {
+                this.stopProgram(record);
+                record.timer.cancel();
+                this.sessionRecord = null;
+            }
+            throw error;
+        }
+    }
+
+    private tickProgram = (): void => {
+        const record = this.sessionRecord;
+        const running = record?.program;
+        if (!record || !running) return;
+
+        const state = evaluateProgram(running.definition, record.timer.getElapsedMillis());
+        this.events.emit('programUpdate', { ...state, programId: running.definition.id });
+
+        if (state.keyframeIndex !== running.keyframeIndex) {
+            // Keyframe boundary — move to the new keyframe's category
+            running.keyframeIndex = state.keyframeIndex;
+            console.log(`Program keyframe ${state.keyframeIndex + 1}: ${state.energyState} at ${state.intensity.toFixed(2)}`);
+            this.playForState(state.energyState, state.intensity).catch(error => {
+                console.error('Failed to follow program keyframe:', error);
+            });
+            return;
+        }
+
+        // Within a keyframe the current track plays on; the next one follows the ramp
+        if (this.session && this.session.energyType === state.energyState) {
+            this.session.intensity = state.intensity;
+            this.session.category = this.getCategory(state.energyState, state.intensity);
+        }
+    };
+
+    private stopProgram(record: SessionRecord): void {
+        if (!record.program) return;
+        clearInterval(record.program.ticker);
+    }
+
+    private finishTimedSession = async (): Promise<void> => {
+        const record = this.sessionRecord;
+        if (!record) return;
+
+        // No more tracks — the provider's stop fades the last one out
+        this.session = null;
+        this.ambienceSession = null;
+        this.interruption = null;
+        this.cancelPreloads();
+        this.syncAmbience(false);
+        try {
+            await this.activeProvider?.stop();
+        } catch (error) {
+            console.warn('Failed to fade out at session end:', error);
+        }
+
+        if (this.sessionRecord === record) this.closeSessionRecord(true);
+    };
+
+    private closeSessionRecord(completed: boolean): SessionSummary | null {
+        const record = this.sessionRecord;
+        if (!record) return null;
+        this.sessionRecord = null;
+        record.timer.cancel();
+        this.stopProgram(record);
+
+        const summary: SessionSummary = {
+            energyType: record.energyType,
+            intensity: record.intensity,
+            startedAt: record.startedAt,
+            elapsedMillis: record.timer.getElapsedMillis(),
+            plannedMillis: record.timer.getDurationMillis(),
+            tracks: record.tracks,
+            completed,
+            ...(record.program ? { programName: record.program.definition.name } : {}),
+        };
+        this.sessionHistory.record(summary);
+        console.log(`Session ${completed ? 'completed' : 'ended early'} after ${Math.round(summary.elapsedMillis / 1000)}s`);
+        this.events.emit('sessionEnded', { summary });
+        return summary;
+    }
+
+    loadSessionHistory(): Promise<void> {
+        return this.sessionHistory.load();
+    }
+
+    // Most recent first
+    getSessionHistory(): SessionSummary[] {
+        return this.sessionHistory.getSessions();
+    }
+
+    // Null when no session is running or it has no timer
+    getSessionRemainingMillis(): number | null {
+        return this.sessionRecord?.timer.getRemainingMillis() ?? null;
+    }
+
+    private async startSession(energyType: 'warm' | 'cool', intensity: number): Promise<void> {
         if (!this.activeProvider) {
             throw new Error('No music provider initialized');
         }
 
         // Determine category from intensity
-        const category = `${energyType}-${this.getIntensityLevel(intensity)}`;
+        const category = this.getCategory(energyType, intensity);
 
-        // Select a track — no-repeat logic lives in TrackRegistry
-        const track = TrackRegistry.selectTrack(category);
+        // Select a track — selection rules live in TrackRegistry (or the provider's own catalog)
+        const track = await this.selectTrack(energyType, intensity);
         if (!track) {
             throw new Error(`No tracks available for category: ${category}`);
         }
 
+        // Start a fresh session so the track that ends next stays at this intensity
+        const session: PlaybackSession = { energyType, intensity, category, upNext: null };
+        this.session = session;
+        this.ambienceSession = null;
+        this.interruption = null;
+
         try {
-            await this.activeProvider.loadTrack(track);
-            await this.activeProvider.play();
+            await this.playWithRecovery(track, session);
         } catch (error) {
+            // A newer request or a stop took over while this one was queued
+            if (error instanceof OperationCancelledError) {
+                console.log(`Playback superseded: ${track.id}`);
+                return;
+            }
             console.error('Error playing track:', error);
+            this.events.emit('error', { error, context: 'play' });
+            throw error;
+        }
+
+        // Fire-and-forget — the next track loads while this one plays
+        this.queueNext();
+    }
+
+    // Live intensity change from the visualizer — only moves to a new track
+    // when the current one no longer fits the new intensity
+    async retuneIntensity(energyType: 'warm' | 'cool', intensity: number): Promise<void> {
+        // Ambience-only sessions have no music to move — the spiral only changes the visuals
+        if (this.ambienceSession) return;
+
+        const session = this.session;
+        if (session && session.energyType === energyType && this.currentTrackFits(intensity)) {
+            // Keep playing, but let the next track follow the new intensity
+            session.intensity = intensity;
+            session.category = this.getCategory(energyType, intensity);
+            this.queueNext();
+            return;
+        }
+
+        console.log(`Intensity retuned to ${intensity.toFixed(2)}, moving tracks`);
+        await this.playForState(energyType, intensity);
+    }
+
+    private currentTrackFits(intensity: number): boolean {
+        const session = this.session;
+        const current = this.getCurrentTrack();
+        if (!session || !current) return false;
+
+        const newCategory = this.getCategory(session.energyType, intensity);
+        const usesBuckets = this.matchingMode === 'bucket' || !!this.activeProvider?.selectTrack;
+        if (usesBuckets) {
+            return newCategory === session.category;
+        }
+
+        const trackCategory = TrackRegistry.getCategoryForTrack(current.id) ?? session.category;
+        return Math.abs(getTrackEnergy(current, trackCategory) - intensity) <= RETUNE_DISTANCE;
+    }
+
+    setMatchingMode(mode: MatchingMode): void {
+        this.matchingMode = mode;
+        console.log(`Matching mode: ${mode}`);
+    }
+
+    getMatchingMode(): MatchingMode {
+        return this.matchingMode;
+    }
+
+    setSessionMode(mode: SessionMode): void {
+        this.sessionMode = mode;
+        console.log(`Session mode: ${mode}`);
+    }
+
+    getSessionMode(): SessionMode {
+        return this.sessionMode;
+    }
+
+    // Picks the track after the current one and preloads it so the
+    // hand-off at the end of the current track is instant
+    private async queueNext(): Promise<void> {
+        const session = this.session;
+        if (!session || this.sessionMode === 'repeat-track') return;
+
+        try {
+            const upNext = await this.selectTrack(session.energyType, session.intensity);
+            session.upNext = upNext;
+
+            if (upNext && this.activeProvider?.preloadTrack) {
+                if (await this.activeProvider.preloadTrack(upNext)) {
+                    this.events.emit('preloaded', { track: upNext });
+                }
+            }
+        } catch (error) {
+            // Not fatal — the session picks a track when the current one ends instead
+            console.warn('Failed to queue next track:', error);
+            this.events.emit('error', { error, context: 'queue' });
+        }
+    }
+
+    private handleAmplitude = (level: number): void => {
+        this.events.emit('amplitude', { level });
+    };
+
+    // Single entry point for provider status — fanned out as typed events
+    private handleStatusUpdate = (status: PlaybackStatus): void => {
+        const trackId = status.track?.id ?? null;
+        if (trackId !== this.reportedTrackId) {
+            this.reportedTrackId = trackId;
+            if (trackId) TrackRegistry.recordPlay(trackId);
+            if (status.track && this.sessionRecord) {
+                const { id, title, artist } = status.track;
+                this.sessionRecord.tracks.push({ id, title, artist });
+            }
+            this.events.emit('trackChanged', { track: status.track });
+        }
+
+        // An ambience-only session keeps its own clock — the idle provider has no say
+        if (this.sessionRecord && !this.ambienceSession) {
+            if (status.isPlaying) this.sessionRecord.timer.resume();
+            else this.sessionRecord.timer.pause();
+        }
+
+        this.entrainment.update(this.session, status.isPlaying);
+        this.syncAmbience(status.isPlaying);
+
+        this.events.emit('positionUpdate', {
+            positionMillis: status.positionMillis,
+            durationMillis: status.durationMillis,
+            isPlaying: status.isPlaying,
+        });
+
+        if (status.interrupted && status.track) {
+            // The provider can't tell a call from an unplugged headset — whether
+            // the app was in the foreground at the time is the best hint there is
+            const reason = this.appState === 'active' ? 'route-change' : 'interruption';
+            this.recordInterruption(reason, status.track, status.positionMillis);
+        }
+
+        if (status.didJustFinish && status.track) {
+            this.events.emit('ended', { track: status.track });
+            this.handleTrackEnded(status.track);
+        }
+    };
+
+    private recordInterruption(reason: InterruptionReason, track: TrackEntry, positionMillis: number): void {
+        this.interruption = { reason, track, positionMillis };
+        console.log(`Playback interrupted (${reason}) at ${positionMillis}ms`);
+        this.events.emit('interrupted', this.interruption);
+    }
+
+    private watchAppState(): void {
+        if (this.appStateSubscription) return;
+        this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+
+    private handleAppStateChange = async (next: AppStateStatus): Promise<void> => {
+        const previous = this.appState;
+        this.appState = next;
+        const provider = this.activeProvider;
+        if (!provider) return;
+
+        try {
+            // Ambience has no track to offer back — it simply waits paused
+            if (next === 'background' && this.backgroundBehavior === 'pause' && this.ambienceSession) {
+                await this.pause();
+            }
+            if (next === 'background' && this.backgroundBehavior === 'pause' && provider.isPlaying()) {
+                const track = provider.getCurrentTrack();
+                await provider.pause();
+                if (track) this.recordInterruption('background', track, provider.getPositionMillis());
+            }
+
+            // Status callbacks may not have arrived while the app was away
+            if (next === 'active' && previous !== 'active') {
+                await provider.syncStatus?.();
+            }
+        } catch (error) {
+            console.warn('Failed to handle app state change:', error);
+        }
+    };
+
+    setBackgroundBehavior(behavior: BackgroundBehavior): void {
+        this.backgroundBehavior = behavior;
+        console.log(`Background behavior: ${behavior}`);
+    }
+
+    getBackgroundBehavior(): BackgroundBehavior {
+        return this.backgroundBehavior;
+    }
+
+    getInterruption(): Interruption | null {
+        return this.interruption;
+    }
+
+    // Picks up where the interruption left off — the provider kept the sound
+    // paused at its position and volume, so this is a plain play
+    async resumeAfterInterruption(): Promise<void> {
+        const interruption = this.interruption;
+        if (!interruption || !this.activeProvider) return;
+        this.interruption = null;
+
+        if (this.getCurrentTrack()?.id !== interruption.track.id) {
+            console.warn(`Nothing to resume — ${interruption.track.id} is no longer loaded`);
+            return;
+        }
+
+        try {
+            await this.activeProvider.play();
+        } catch (error) {
+            if (error instanceof OperationCancelledError) return;
+            console.error('Error resuming playback:', error);
+            this.events.emit('error', { error, context: 'resume' });
             throw error;
         }
+        console.log(`Resumed ${interruption.track.id} at ${interruption.positionMillis}ms`);
+        this.events.emit('resumed', { track: interruption.track });
+    }
+
+    // Keeps the session going instead of falling silent
+    private handleTrackEnded = async (finished: TrackEntry): Promise<void> => {
+        const session = this.session;
+        if (!session || !this.activeProvider) return;
+
+        try {
+            const next = this.sessionMode === 'repeat-track'
+                ? finished
+                : session.upNext ?? await this.selectTrack(session.energyType, session.intensity);
+            session.upNext = null;
+
+            if (!next) {
+                console.warn(`Session ended — no tracks left in ${session.category}`);
+                return;
+            }
+
+            const played = await this.playWithRecovery(next, session);
+            console.log(`Session advanced to: ${played.id}`);
+        } catch (error) {
+            if (error instanceof OperationCancelledError) return;
+            console.error('Error advancing session:', error);
+            this.events.emit('error', { error, context: 'advance' });
+            return;
+        }
+
+        this.queueNext();
+    };
+
+    // Something already playing — fade into the new track instead of cutting
+    private async startTrack(track: TrackEntry, session: PlaybackSession): Promise<void> {
+        const provider = this.activeProvider;
+        if (!provider) throw new Error('No music provider initialized');
+
+        if (provider.isPlaying() && provider.crossfadeTo) {
+            await provider.crossfadeTo(track, this.crossfadeOptions);
+            return;
+        }
+        await provider.loadTrack(track);
+        // Session may have been stopped while the track was loading
+        if (this.session !== session) return;
+        await provider.play();
+    }
+
+    // Starts a track, recovering when it won't load: a retry, then another
+    // track from the same category, then one from a neighbouring intensity
+    // category. Tracks that fail for good sit out the rest of the session.
+    // Resolves with whatever ended up playing; rethrows the last failure if nothing would.
+    private async playWithRecovery(track: TrackEntry, session: PlaybackSession): Promise<TrackEntry> {
+        let lastError: unknown;
+        for (let attempt = 0; attempt <= LOAD_RETRIES; attempt++) {
+            try {
+                await this.startTrack(track, session);
+                return track;
+            } catch (error) {
+                if (error instanceof OperationCancelledError) throw error;
+                lastError = error;
+                console.warn(`Failed to load ${track.id} (attempt ${attempt + 1}):`, error);
+            }
+        }
+        TrackRegistry.quarantine(track.id);
+
+        const categories = [
+            session.category,
+            ...getNeighbouringLevels(session.intensity).map(level => `${session.energyType}-${level}`),
+        ];
+        for (const category of categories) {
+            while (true) {
+                const fallback = await this.selectFallback(category);
+                if (!fallback) break;
+                if (this.session !== session) throw new OperationCancelledError(`recover ${track.id}`);
+
+                try {
+                    await this.startTrack(fallback, session);
+                } catch (error) {
+                    if (error instanceof OperationCancelledError) throw error;
+                    // Fallbacks get no retry — every attempt is more silence
+                    lastError = error;
+                    console.warn(`Fallback ${fallback.id} failed to load too:`, error);
+                    TrackRegistry.quarantine(fallback.id);
+                    continue;
+                }
+
+                console.log(`Fell back from ${track.id} to ${fallback.id}`);
+                this.events.emit('trackFallback', { failed: track, fallback });
+                return fallback;
+            }
+        }
+        throw lastError;
     }
 
-    private getIntensityLevel(intensity: number): 'low' | 'medium' | 'high' {
-        if (intensity < 0.33) return 'low';
-        if (intensity < 0.66) return 'medium';
-        return 'high';
+    // Another track from a category, or null once it has nothing playable left
+    private async selectFallback(category: string): Promise<TrackEntry | null> {
+        const track = this.activeProvider?.selectTrack
+            ? await this.activeProvider.selectTrack(category)
+            : TrackRegistry.selectTrack(category);
+        // A provider's own catalog knows nothing of the quarantine
+        return track && !TrackRegistry.isQuarantined(track.id) ? track : null;
+    }
+
+    private async selectTrack(energyType: 'warm' | 'cool', intensity: number): Promise<TrackEntry | null> {
+        const category = this.getCategory(energyType, intensity);
+        if (this.activeProvider?.selectTrack) {
+            return this.activeProvider.selectTrack(category);
+        }
+        if (this.matchingMode === 'energy') {
+            return TrackRegistry.selectTrackForIntensity(energyType, intensity);
+        }
+        return TrackRegistry.selectTrack(category);
+    }
+
+    setCrossfadeOptions(options: Partial<CrossfadeOptions>): void {
+        this.crossfadeOptions = { ...this.crossfadeOptions, ...options };
+    }
+
+    // Fades for the music channel
+    setVolumeEnvelope(envelope: Partial<VolumeEnvelope>): void {
+        this.mixer.setChannelFade('music', envelope);
+    }
+
+    // The user's volume, 0–1, over both channels. Carries over when the provider
+    // changes, and is remembered across launches.
+    setMasterVolume(volume: number): Promise<void> {
+        const applied = this.mixer.setMasterVolume(volume);
+        this.settings.setMasterVolume(this.mixer.getMasterVolume());
+        return applied;
+    }
+
+    // Restores the master volume from the last launch
+    async loadPlaybackSettings(): Promise<void> {
+        await this.settings.load();
+        const masterVolume = this.settings.getMasterVolume();
+        if (masterVolume !== null) await this.mixer.setMasterVolume(masterVolume);
+    }
+
+    getMasterVolume(): number {
+        return this.mixer.getMasterVolume();
+    }
+
+    // A channel's share of the master volume, 0–1
+    setChannelVolume(channel: MixerChannel, volume: number): Promise<void> {
+        return this.mixer.setChannelVolume(channel, volume);
+    }
+
+    setChannelFade(channel: MixerChannel, envelope: Partial<VolumeEnvelope>): void {
+        this.mixer.setChannelFade(channel, envelope);
+    }
+
+    getChannel(channel: MixerChannel): ChannelSettings {
+        return this.mixer.getChannel(channel);
+    }
+
+    getAmbienceOptions(energyState: 'warm' | 'cool'): AmbienceEntry[] {
+        return AmbienceRegistry.getForEnergyState(energyState);
+    }
+
+    // Null turns ambience off for that energy state. Applies straight away if
+    // a session on that side is playing.
+    setAmbience(energyState: 'warm' | 'cool', ambienceId: string | null): void {
+        if (ambienceId !== null && !AmbienceRegistry.getById(ambienceId)) {
+            console.warn(`Unknown ambience: ${ambienceId}`);
+            return;
+        }
+        this.ambienceChoices[energyState] = ambienceId;
+        this.syncAmbience(this.isPlaying());
+    }
+
+    getAmbience(energyState: 'warm' | 'cool'): string | null {
+        return this.ambienceChoices[energyState];
+    }
+
+    // An ambience-only session falls back to the first bed in the catalog
+    private getAmbienceEntry(energyState: 'warm' | 'cool', fallback: boolean): AmbienceEntry | null {
+        const chosen = this.ambienceChoices[energyState];
+        if (chosen) return AmbienceRegistry.getById(chosen);
+        return fallback ? AmbienceRegistry.getForEnergyState(energyState)[0] ?? null : null;
+    }
+
+    // Points the ambience channel at the running session — alongside music it
+    // plays while the music does; on its own it plays until paused
+    private syncAmbience(musicPlaying: boolean): void {
+        const ambienceSession = this.ambienceSession;
+        if (ambienceSession) {
+            this.mixer.updateAmbience(this.getAmbienceEntry(ambienceSession.energyType, true), !ambienceSession.paused);
+            return;
+        }
+        const entry = this.session ? this.getAmbienceEntry(this.session.energyType, false) : null;
+        this.mixer.updateAmbience(entry, musicPlaying);
+    }
+
+    // Off by default. Changes apply straight away if a session is playing.
+    setEntrainment(settings: Partial<EntrainmentSettings>): void {
+        this.entrainment.setSettings(settings);
+        this.entrainment.update(this.session, this.isPlaying());
+    }
+
+    getEntrainment(): EntrainmentSettings {
+        return this.entrainment.getSettings();
+    }
+
+    private getCategory(energyType: 'warm' | 'cool', intensity: number): string {
+        return `${energyType}-${getIntensityLevel(intensity)}`;
     }
 
     async pause(): Promise<void> {
+        if (this.ambienceSession) {
+            this.ambienceSession.paused = true;
+            this.sessionRecord?.timer.pause();
+            this.syncAmbience(false);
+            return;
+        }
+        // A deliberate pause replaces any pending offer to resume
+        this.interruption = null;
         if (this.activeProvider) await this.activeProvider.pause();
     }
 
+    // Carries on from wherever playback was paused, by the user or the system
+    async resume(): Promise<void> {
+        if (this.ambienceSession) {
+            this.ambienceSession.paused = false;
+            this.sessionRecord?.timer.resume();
+            this.syncAmbience(false);
+            return;
+        }
+        if (this.interruption) {
+            await this.resumeAfterInterruption();
+            return;
+        }
+        if (!this.activeProvider?.getCurrentTrack() || this.activeProvider.isPlaying()) return;
+        await this.activeProvider.play();
+    }
+
+    // Moves the session on to its next track straight away. The next track
+    // comes from the usual selection, so no-repeat and the rest still apply.
+    async skip(): Promise<void> {
+        const session = this.session;
+        if (!session || !this.activeProvider) return;
+
+        const skipped = this.getCurrentTrack();
+        if (skipped) TrackRegistry.recordSkip(skipped.id);
+
+        const next = session.upNext ?? await this.selectTrack(session.energyType, session.intensity);
+        session.upNext = null;
+        if (!next) {
+            console.warn(`Nothing to skip to in ${session.category}`);
+            return;
+        }
+
+        this.interruption = null;
+        let played: TrackEntry;
+        try {
+            played = await this.playWithRecovery(next, session);
+        } catch (error) {
+            if (error instanceof OperationCancelledError) return;
+            console.error('Error skipping track:', error);
+            this.events.emit('error', { error, context: 'skip' });
+            throw error;
+        }
+
+        console.log(`Skipped to: ${played.id}`);
+        this.queueNext();
+    }
+
+    // Liked tracks come up more often in selection
+    setTrackFavorite(trackId: string, favorite: boolean): void {
+        TrackRegistry.setFavorite(trackId, favorite);
+    }
+
+    // Keeps a track out of selection from now on. Banning the one that's
+    // playing moves the session straight on.
+    async banTrack(trackId: string): Promise<void> {
+        TrackRegistry.setBanned(trackId, true);
+        if (this.getCurrentTrack()?.id === trackId) await this.skip();
+    }
+
+    getTrackPreference(trackId: string): TrackPreference {
+        return TrackRegistry.getPreference(trackId);
+    }
+
+    // Abandons preloads still in flight — loaded sounds stay cached
+    cancelPreloads(): void {
+        this.activeProvider?.cancelPreloads?.();
+    }
+
+    // Kept for whichever provider becomes active next
+    setPreloadBudget(budget: PreloadCacheBudget): void {
+        this.preloadBudget = budget;
+        this.activeProvider?.setPreloadBudget?.(budget);
+    }
+
+    // Null when the provider doesn't preload
+    getPreloadStats(): PreloadCacheStats | null {
+        return this.activeProvider?.getPreloadStats?.() ?? null;
+    }
+
     async stop(): Promise<void> {
+        // Stopping before the timer runs out leaves a partial session;
+        // open-ended sessions are only ever ended this way
+        const record = this.sessionRecord;
+        if (record) this.closeSessionRecord(record.timer.getDurationMillis() === null);
+
+        this.session = null;
+        this.ambienceSession = null;
+        this.interruption = null;
+        this.cancelPreloads();
+        this.entrainment.update(null, false);
+        this.syncAmbience(false);
         if (this.activeProvider) await this.activeProvider.stop();
     }
 
@@ -91,6 +920,15 @@ export class MusicServiceManager {
     }
 
     async cleanup(): Promise<void> {
+        this.closeSessionRecord(false);
+        this.session = null;
+        this.ambienceSession = null;
+        this.preloadedEnergyState = null;
+        this.interruption = null;
+        this.appStateSubscription?.remove();
+        this.appStateSubscription = null;
+        await this.entrainment.cleanup();
+        await this.mixer.cleanup();
         if (this.activeProvider) {
             await this.activeProvider.cleanup();
             this.activeProvider = null;
@@ -98,9 +936,19 @@ export class MusicServiceManager {
     }
 
     getCurrentTrack(): TrackEntry | null {
-        if (this.activeProvider instanceof LocalAudioProvider) {
-            return this.activeProvider.getCurrentTrack();
-        }
-        return null;
+        return this.activeProvider?.getCurrentTrack() ?? null;
+    }
+
+    getPositionMillis(): number {
+        return this.activeProvider?.getPositionMillis() ?? 0;
+    }
+
+    getDurationMillis(): number | null {
+        return this.activeProvider?.getDurationMillis() ?? null;
+    }
+
+    // Category the running session is playing from, e.g. 'warm-high'
+    getSessionCategory(): string | null {
+        return this.session?.category ?? null;
     }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+// NoiseGenerator.ts
+// Ambience beds synthesised as raw PCM. Pure — no audio APIs — and seeded,
+// so the same bed comes out sample for sample on every device.
+//   pink  — equal energy per octave; soft and even
+//   brown — weighted further towards the lows; a distant rumble
+//   ocean — brown noise swelling and receding like waves
+//   rain  — pink noise with scattered drops on top
+
+import { createSeededRandom } from './SelectionStrategy';
+import type { PcmBuffer } from './ToneGenerator';
+
+export type NoiseKind = 'pink' | 'brown' | 'ocean' | 'rain';
+
+export const NOISE_KINDS: NoiseKind[] = ['pink', 'brown', 'ocean', 'rain'];
+
+export interface NoiseOptions {
+    sampleRate: number;
+    // Length of one loop of the bed
+    durationSeconds: number;
+    // Rough peak level, 0–1
+    amplitude: number;
+    seed: number;
+}
+
+export const DEFAULT_NOISE_OPTIONS: NoiseOptions = {
+    sampleRate: 22050,
+    durationSeconds: 16,
+    amplitude: 0.5,
+    seed: 1,
+};
+
+// Tail blended into the head so the loop has no audible seam
+const SEAM_SECONDS = 1;
+
+// One wave every SWELL_SECONDS — the loop length is rounded to whole waves
+const SWELL_SECONDS = 8;
+
+// Drops per second, and how quickly each one dies away
+const DROPS_PER_SECOND = 40;
+const DROP_DECAY_SECONDS = 0.004;
+
+const toSample = (value: number): number =>
+    Math.round(Math.max(-1, Math.min(1, value)) * 32767);
+
+// Paul Kellet's economy filter — white noise in, roughly -3 dB per octave out
+const createPinkFilter = () => {
+    let b0 = 0, b1 = 0, b2 = 0;
+    return (white: number): number => {
+        b0 = 0.99765 * b0 + white * 0.0990460;
+        b1 = 0.96300 * b1 + white * 0.2965164;
+        b2 = 0.57000 * b2 + white * 1.0526913;
+        return (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    };
+};
+
+// Leaky integrator — a plain one wanders off towards clipping
+const createBrownFilter = () => {
+    let last = 0;
+    return (white: number): number => {
+        last = (last + white * 0.02) * 0.998;
+        return last * 2;
+    };
+};
+
+const renderRaw = (kind: NoiseKind, frameCount: number, sampleRate: number, random: () => number): Float32Array => {
+    const white = () => random() * 2 - 1;
+    const pink = createPinkFilter();
+    const brown = createBrownFilter();
+    const dropDecay = Math.exp(-1 / (DROP_DECAY_SECONDS * sampleRate));
+    const dropChance = DROPS_PER_SECOND / sampleRate;
+    let drop = 0;
+
+    const raw = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        switch (kind) {
+            case 'pink':
+                raw[frame] = pink(white());
+                break;
+            case 'brown':
+            case 'ocean':
+                raw[frame] = brown(white());
+                break;
+            case 'rain':
+                if (random() < dropChance) drop = 0.3 + random() * 0.7;
+                drop *= dropDecay;
+                raw[frame] = pink(white()) * 0.6 + white() * drop * 0.5;
+                break;
+        }
+    }
+    return raw;
+};
+
+// Slow rise and fall over one wave, phase 0–1, never quite reaching silence
+const swell = (phase: number): number =>
+    0.25 + 0.75 * (0.5 - 0.5 * Math.cos(2 * Math.PI * phase));
+
+export const generateNoise = (kind: NoiseKind, options: Partial<NoiseOptions> = {}): PcmBuffer => {
+    const { sampleRate, durationSeconds, amplitude, seed } = { ...DEFAULT_NOISE_OPTIONS, ...options };
+    const loopSeconds = kind === 'ocean'
+        ? Math.max(1, Math.round(durationSeconds / SWELL_SECONDS)) * SWELL_SECONDS
+        : durationSeconds;
+    const frameCount = Math.round(sampleRate * loopSeconds);
+    const seamFrames = Math.min(Math.round(sampleRate * SEAM_SECONDS), Math.floor(frameCount / 2));
+
+    // Rendered a seam longer than the loop. The overhang picks up exactly where
+    // the last frame leaves off, so blending it into the head joins end to start.
+    const raw = renderRaw(kind, frameCount + seamFrames, sampleRate, createSeededRandom(seed));
+
+    const samples = new Int16Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        let value = raw[frame];
+        if (frame < seamFrames) {
+            // Equal-power — the two sides are uncorrelated, so this keeps the level steady
+            const progress = frame / seamFrames;
+            value = raw[frame] * Math.sin(progress * Math.PI / 2) +
+                raw[frameCount + frame] * Math.cos(progress * Math.PI / 2);
+        }
+        if (kind === 'ocean') value *= swell((frame / sampleRate / SWELL_SECONDS) % 1);
+        samples[frame] = toSample(amplitude * value);
+    }
+    return { sampleRate, channels: 1, samples };
+};
@@ -0,0 +1,56 @@
+// PlaybackSettings.ts
+// Listener settings that outlive a session — for now the master volume.
+// Same fire-and-forget persistence as SelectionStore.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { KeyValueStorage } from './SelectionStore';
+
+const STORAGE_KEY = 'entheosnow.settings.v1';
+
+export class PlaybackSettings {
+    // Null until the listener has set it, here or on a previous launch
+    private masterVolume: number | null = null;
+    private loading: Promise<void> | null = null;
+
+    constructor(private storage: KeyValueStorage = AsyncStorage) {}
+
+    // Safe to call repeatedly — storage is only read once
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.read();
+        }
+        return this.loading;
+    }
+
+    getMasterVolume(): number | null {
+        return this.masterVolume;
+    }
+
+    async setMasterVolume(volume: number): Promise<void> {
+        this.masterVolume = volume;
+        // Loading first keeps the stored value from overwriting this one
+        await this.load();
+        this.storage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, masterVolume: this.masterVolume })).catch(error => {
+            console.warn('Failed to save playback settings:', error);
+        });
+    }
+
+    private async read(): Promise<void> {
+        try {
+            const raw = await this.storage.getItem(STORAGE_KEY);
+            if (!raw) return;
+
+            const parsed = JSON.parse(raw);
+            if (parsed?.version !== 1) {
+                console.warn('Ignoring playback settings with unknown version');
+                return;
+            }
+            // A change made while this was loading is newer
+            if (this.masterVolume === null && typeof parsed.masterVolume === 'number') {
+                this.masterVolume = parsed.masterVolume;
+            }
+        } catch (error) {
+            console.warn('Failed to load playback settings:', error);
+        }
+    }
+}
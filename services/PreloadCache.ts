@@ -0,0 +1,135 @@
+// PreloadCache.ts
+// Least-recently-used store for preloaded sounds with a memory budget.
+// Entries past the budget are evicted oldest first; the owner decides
+// how an evicted value is released (e.g. unloading an Audio.Sound).
+
+export interface PreloadCacheBudget {
+    maxEntries: number;
+    maxBytes: number;
+}
+
+export interface PreloadCacheStats {
+    hits: number;
+    misses: number;
+    evictions: number;
+    entries: number;
+    bytes: number;
+}
+
+// Six tracks covers both sides of a full energy state switch;
+// ~64MB keeps decoded audio well clear of low-end Android limits
+export const DEFAULT_PRELOAD_BUDGET: PreloadCacheBudget = {
+    maxEntries: 6,
+    maxBytes: 64 * 1024 * 1024,
+};
+
+interface CacheEntry<T> {
+    value: T;
+    bytes: number;
+}
+
+export class PreloadCache<T> {
+    // Map iteration order is insertion order — first key is least recently used
+    private entries: Map<string, CacheEntry<T>> = new Map();
+    private hits: number = 0;
+    private misses: number = 0;
+    private evictions: number = 0;
+
+    constructor(
+        private budget: PreloadCacheBudget,
+        private onEvict: (key: string, value: T) => void
+    ) {}
+
+    has(key: string): boolean {
+        return this.entries.has(key);
+    }
+
+    // Adds or refreshes an entry, then evicts until back under budget.
+    // The newest entry is never evicted, even if it alone exceeds maxBytes.
+    set(key: string, value: T, bytes: number): void {
+        const existing = this.entries.get(key);
+        if (existing && existing.value !== value) {
+            this.onEvict(key, existing.value);
+        }
+        this.entries.delete(key);
+        this.entries.set(key, { value, bytes });
+        this.enforceBudget();
+    }
+
+    // Removes and returns an entry that's about to be used — counts towards hit rate
+    take(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        this.entries.delete(key);
+        return entry.value;
+    }
+
+    // Marks an entry as recently used without removing it
+    touch(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+    }
+
+    evictWhere(shouldEvict: (key: string) => boolean): void {
+        for (const key of [...this.entries.keys()]) {
+            if (shouldEvict(key)) this.evict(key);
+        }
+    }
+
+    setBudget(budget: PreloadCacheBudget): void {
+        this.budget = budget;
+        this.enforceBudget();
+    }
+
+    // Hands every value back to the caller without counting evictions
+    drain(): T[] {
+        const values = [...this.entries.values()].map(entry => entry.value);
+        this.entries.clear();
+        return values;
+    }
+
+    getStats(): PreloadCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            entries: this.entries.size,
+            bytes: this.getTotalBytes(),
+        };
+    }
+
+    private getTotalBytes(): number {
+        let total = 0;
+        for (const entry of this.entries.values()) total += entry.bytes;
+        return total;
+    }
+
+    private enforceBudget(): void {
+        while (
+            this.entries.size > 1 &&
+            (this.entries.size > this.budget.maxEntries || this.getTotalBytes() > this.budget.maxBytes)
+        ) {
+            const oldest = this.entries.keys().next().value as string;
+            this.evict(oldest);
+        }
+        if (this.entries.size > this.budget.maxEntries) {
+            // maxEntries of 0 disables preloading entirely
+            this.evict(this.entries.keys().next().value as string);
+        }
+    }
+
+    private evict(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        this.evictions++;
+        this.onEvict(key, entry.value);
+        console.log(`Evicted preloaded track: ${key}`);
+    }
+}
@@ -0,0 +1,122 @@
+// ProgramLibrary.ts
+// Built-in intensity programs plus the ones users author, which are kept
+// across app launches. Built-ins can't be overwritten or removed.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { KeyValueStorage } from './SelectionStore';
+import { IntensityProgram, ProgramError, validateProgram } from './IntensityProgram';
+
+const MINUTE = 60 * 1000;
+
+export const BUILT_IN_PROGRAMS: IntensityProgram[] = [
+    {
+        id: 'builtin-warm-up',
+        name: 'Warm-up',
+        keyframes: [
+            { energyState: 'cool', intensity: 0.15, durationMillis: 3 * MINUTE, ramp: false },
+            { energyState: 'warm', intensity: 0.85, durationMillis: 5 * MINUTE, ramp: true },
+        ],
+    },
+    {
+        id: 'builtin-focus',
+        name: 'Pre-performance focus',
+        keyframes: [
+            { energyState: 'cool', intensity: 0.3, durationMillis: 4 * MINUTE, ramp: false },
+            { energyState: 'cool', intensity: 0.7, durationMillis: 3 * MINUTE, ramp: true },
+            { energyState: 'warm', intensity: 0.9, durationMillis: 2 * MINUTE, ramp: true },
+            { energyState: 'warm', intensity: 0.9, durationMillis: 1 * MINUTE, ramp: false },
+        ],
+    },
+    {
+        id: 'builtin-cool-down',
+        name: 'Cool-down',
+        keyframes: [
+            { energyState: 'warm', intensity: 0.6, durationMillis: 2 * MINUTE, ramp: false },
+            { energyState: 'cool', intensity: 0.5, durationMillis: 3 * MINUTE, ramp: true },
+            { energyState: 'cool', intensity: 0.1, durationMillis: 5 * MINUTE, ramp: true },
+        ],
+    },
+];
+
+const STORAGE_KEY = 'entheosnow.programs.v1';
+
+export class ProgramLibrary {
+    private userPrograms: IntensityProgram[] = [];
+    private loading: Promise<void> | null = null;
+
+    constructor(private storage: KeyValueStorage = AsyncStorage) {}
+
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.read();
+        }
+        return this.loading;
+    }
+
+    // Built-ins first, then the user's own in the order they were created
+    getPrograms(): IntensityProgram[] {
+        return [...BUILT_IN_PROGRAMS, ...this.userPrograms];
+    }
+
+    getProgram(programId: string): IntensityProgram | null {
+        return this.getPrograms().find(program => program.id === programId) ?? null;
+    }
+
+    isBuiltIn(programId: string): boolean {
+        return BUILT_IN_PROGRAMS.some(program => program.id === programId);
+    }
+
+    // Adds a new program or replaces one with the same id
+    async save(program: IntensityProgram): Promise<void> {
+        validateProgram(program);
+        if (this.isBuiltIn(program.id)) {
+            throw new ProgramError(`${program.name} is built in and can't be changed`);
+        }
+
+        await this.load();
+        const index = this.userPrograms.findIndex(existing => existing.id === program.id);
+        this.userPrograms = index >= 0
+            ? this.userPrograms.map(existing => existing.id === program.id ? program : existing)
+            : [...this.userPrograms, program];
+        this.persist();
+    }
+
+    async remove(programId: string): Promise<void> {
+        await this.load();
+        this.userPrograms = this.userPrograms.filter(program => program.id !== programId);
+        this.persist();
+    }
+
+    private async read(): Promise<void> {
+        try {
+            const raw = await this.storage.getItem(STORAGE_KEY);
+            if (!raw) return;
+
+            const parsed = JSON.parse(raw);
+            if (parsed?.version !== 1) {
+                console.warn('Ignoring saved programs with unknown version');
+                return;
+            }
+
+            // A broken program shouldn't take the rest down with it
+            this.userPrograms = (parsed.programs ?? []).filter((program: IntensityProgram) => {
+                try {
+                    validateProgram(program);
+                    return true;
+                } catch (error) {
+                    console.warn('Skipping invalid saved program:', error);
+                    return false;
+                }
+            });
+            console.log(`Loaded ${this.userPrograms.length} saved programs`);
+        } catch (error) {
+            console.warn('Failed to load saved programs:', error);
+        }
+    }
+
+    private persist(): void {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, programs: this.userPrograms })).catch(error => {
+            console.warn('Failed to save programs:', error);
+        });
+    }
+}
@@ -0,0 +1,170 @@
+// ProviderConformance.ts
+// Behavioural contract every MusicProvider must satisfy.
+// Test-runner agnostic — a spec wraps runProviderConformance() and fails on
+// any result with passed: false. Each check gets a fresh, initialized provider.
+
+import { MusicProvider, PlaybackStatus } from './MusicProvider';
+import { TrackEntry } from './TrackRegistry';
+
+export interface ConformanceHarness<P extends MusicProvider = MusicProvider> {
+    createProvider(): P;
+    // Two distinct, loadable tracks
+    tracks: [TrackEntry, TrackEntry];
+    // Duration the provider will report for tracks[0]
+    trackDurationMillis: number;
+    // Moves playback forward — a virtual clock for fakes, pushed status
+    // callbacks for providers backed by a mocked native module
+    advance(provider: P, ms: number): Promise<void>;
+}
+
+export interface ConformanceResult {
+    name: string;
+    passed: boolean;
+    message?: string;
+}
+
+class ConformanceError extends Error {}
+
+const expect = (condition: boolean, message: string) => {
+    if (!condition) throw new ConformanceError(message);
+};
+
+interface ConformanceCheck {
+    name: string;
+    run<P extends MusicProvider>(
+        provider: P,
+        harness: ConformanceHarness<P>,
+        statuses: PlaybackStatus[]
+    ): Promise<void>;
+}
+
+const CHECKS: ConformanceCheck[] = [
+    {
+        name: 'starts idle with no track',
+        run: async (provider) => {
+            expect(provider.getCurrentTrack() === null, 'getCurrentTrack() should be null before loading');
+            expect(!provider.isPlaying(), 'isPlaying() should be false before loading');
+        },
+    },
+    {
+        name: 'play() rejects when nothing is loaded',
+        run: async (provider) => {
+            let rejected = false;
+            try {
+                await provider.play();
+            } catch {
+                rejected = true;
+            }
+            expect(rejected, 'play() should reject with no track loaded');
+        },
+    },
+    {
+        name: 'loadTrack() sets the current track without playing',
+        run: async (provider, harness, statuses) => {
+            const [track] = harness.tracks;
+            await provider.loadTrack(track);
+            expect(provider.getCurrentTrack()?.id === track.id, 'getCurrentTrack() should return the loaded track');
+            expect(!provider.isPlaying(), 'isPlaying() should be false after load');
+            expect(provider.getPositionMillis() === 0, 'position should start at 0');
+            expect(provider.getDurationMillis() === harness.trackDurationMillis, 'duration should be known after load');
+            expect(statuses.some(status => status.track?.id === track.id), 'load should emit a status for the track');
+        },
+    },
+    {
+        name: 'play() and pause() toggle playback and emit status',
+        run: async (provider, harness, statuses) => {
+            await provider.loadTrack(harness.tracks[0]);
+            await provider.play();
+            expect(provider.isPlaying(), 'isPlaying() should be true after play()');
+            expect(statuses[statuses.length - 1]?.isPlaying === true, 'play() should emit isPlaying: true');
+
+            await provider.pause();
+            expect(!provider.isPlaying(), 'isPlaying() should be false after pause()');
+            expect(statuses[statuses.length - 1]?.isPlaying === false, 'pause() should emit isPlaying: false');
+        },
+    },
+    {
+        name: 'position advances only while playing',
+        run: async (provider, harness) => {
+            await provider.loadTrack(harness.tracks[0]);
+            await provider.play();
+            await harness.advance(provider, 1000);
+            const playedTo = provider.getPositionMillis();
+            expect(playedTo >= 1000, `position should reach 1000ms while playing, got ${playedTo}`);
+
+            await provider.pause();
+            await harness.advance(provider, 1000);
+            expect(provider.getPositionMillis() === playedTo, 'position should hold while paused');
+        },
+    },
+    {
+        name: 'stop() halts playback and rewinds',
+        run: async (provider, harness) => {
+            await provider.loadTrack(harness.tracks[0]);
+            await provider.play();
+            await harness.advance(provider, 1000);
+            await provider.stop();
+            expect(!provider.isPlaying(), 'isPlaying() should be false after stop()');
+            expect(provider.getPositionMillis() === 0, 'stop() should rewind to 0');
+            expect(provider.getCurrentTrack() !== null, 'stop() should keep the track loaded');
+        },
+    },
+    {
+        name: 'playing to the end emits didJustFinish once',
+        run: async (provider, harness, statuses) => {
+            await provider.loadTrack(harness.tracks[0]);
+            await provider.play();
+            await harness.advance(provider, harness.trackDurationMillis);
+            const finishes = statuses.filter(status => status.didJustFinish);
+            expect(finishes.length === 1, `expected one didJustFinish status, got ${finishes.length}`);
+            expect(finishes[0].track?.id === harness.tracks[0].id, 'didJustFinish should carry the finished track');
+            expect(!provider.isPlaying(), 'isPlaying() should be false once the track ends');
+        },
+    },
+    {
+        name: 'loading another track replaces the current one',
+        run: async (provider, harness) => {
+            const [first, second] = harness.tracks;
+            await provider.loadTrack(first);
+            await provider.play();
+            await provider.loadTrack(second);
+            expect(provider.getCurrentTrack()?.id === second.id, 'getCurrentTrack() should return the newer track');
+            expect(provider.getPositionMillis() === 0, 'position should reset for the new track');
+        },
+    },
+    {
+        name: 'cleanup() releases the track',
+        run: async (provider, harness) => {
+            await provider.loadTrack(harness.tracks[0]);
+            await provider.play();
+            await provider.cleanup();
+            expect(provider.getCurrentTrack() === null, 'getCurrentTrack() should be null after cleanup()');
+            expect(!provider.isPlaying(), 'isPlaying() should be false after cleanup()');
+        },
+    },
+];
+
+export const runProviderConformance = async <P extends MusicProvider>(
+    harness: ConformanceHarness<P>
+): Promise<ConformanceResult[]> => {
+    const results: ConformanceResult[] = [];
+
+    for (const check of CHECKS) {
+        const provider = harness.createProvider();
+        const statuses: PlaybackStatus[] = [];
+
+        try {
+            await provider.initialize();
+            provider.setOnStatusUpdate(status => statuses.push(status));
+            await check.run(provider, harness, statuses);
+            results.push({ name: check.name, passed: true });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            results.push({ name: check.name, passed: false, message });
+        } finally {
+            await provider.cleanup().catch(() => {});
+        }
+    }
+
+    return results;
+};
@@ -0,0 +1,150 @@
+// SelectionStore.ts
+// What track selection remembers between app launches:
+// play history, per-track preferences (favorite, banned, skips) and shuffle bags.
+// Writes are fire-and-forget; a failed save only costs memory across restarts.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface PlayRecord {
+    trackId: string;
+    category: string;
+    playedAt: number;
+}
+
+export interface TrackPreference {
+    favorite?: boolean;
+    banned?: boolean;
+    skips?: number;
+}
+
+interface SelectionState {
+    version: 1;
+    history: PlayRecord[];
+    preferences: Record<string, TrackPreference>;
+    // Category → track IDs still to be drawn this round
+    bags: Record<string, string[]>;
+}
+
+// Minimal storage surface — AsyncStorage in the app, anything map-like elsewhere
+export interface KeyValueStorage {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'entheosnow.selection.v1';
+
+// Enough to cover several long sessions without the blob growing unbounded
+const MAX_HISTORY = 200;
+
+const emptyState = (): SelectionState => ({
+    version: 1,
+    history: [],
+    preferences: {},
+    bags: {},
+});
+
+// Stored state first, then whatever happened in memory while it was loading —
+// the in-memory side is newer, so it wins wherever the two disagree
+const mergeStates = (stored: SelectionState, current: SelectionState): SelectionState => {
+    const preferences = { ...stored.preferences };
+    for (const [trackId, preference] of Object.entries(current.preferences)) {
+        preferences[trackId] = { ...preferences[trackId], ...preference };
+    }
+    return {
+        version: 1,
+        history: [...stored.history, ...current.history].slice(-MAX_HISTORY),
+        preferences,
+        bags: { ...stored.bags, ...current.bags },
+    };
+};
+
+export class SelectionStore {
+    private state: SelectionState = emptyState();
+    // Saves wait for this so an early write can't clobber state that hasn't been read yet
+    private loading: Promise<void> | null = null;
+
+    constructor(private storage: KeyValueStorage = AsyncStorage) {}
+
+    load(): Promise<void> {
+        this.loading = this.readStoredState();
+        return this.loading;
+    }
+
+    private async readStoredState(): Promise<void> {
+        try {
+            const raw = await this.storage.getItem(STORAGE_KEY);
+            if (!raw) return;
+
+            const parsed = JSON.parse(raw);
+            if (parsed?.version !== 1) {
+                console.warn('Ignoring selection state with unknown version');
+                return;
+            }
+            this.state = mergeStates({ ...emptyState(), ...parsed }, this.state);
+            console.log(`Loaded selection state: ${this.state.history.length} plays`);
+        } catch (error) {
+            console.warn('Failed to load selection state:', error);
+        }
+    }
+
+    // Most recent first
+    getHistory(category?: string): PlayRecord[] {
+        const history = [...this.state.history].reverse();
+        return category ? history.filter(record => record.category === category) : history;
+    }
+
+    getLastPlayed(category: string): string | null {
+        return this.getHistory(category)[0]?.trackId ?? null;
+    }
+
+    getLastPlayedAt(trackId: string): number | null {
+        return this.getHistory().find(record => record.trackId === trackId)?.playedAt ?? null;
+    }
+
+    recordPlay(trackId: string, category: string, playedAt: number = Date.now()): void {
+        this.state.history = [...this.state.history, { trackId, category, playedAt }].slice(-MAX_HISTORY);
+        this.persist();
+    }
+
+    getPreference(trackId: string): TrackPreference {
+        return this.state.preferences[trackId] ?? {};
+    }
+
+    setFavorite(trackId: string, favorite: boolean): void {
+        this.updatePreference(trackId, { favorite, banned: favorite ? false : this.getPreference(trackId).banned });
+    }
+
+    setBanned(trackId: string, banned: boolean): void {
+        this.updatePreference(trackId, { banned, favorite: banned ? false : this.getPreference(trackId).favorite });
+    }
+
+    recordSkip(trackId: string): void {
+        this.updatePreference(trackId, { skips: (this.getPreference(trackId).skips ?? 0) + 1 });
+    }
+
+    getBag(category: string): string[] {
+        return this.state.bags[category] ?? [];
+    }
+
+    setBag(category: string, trackIds: string[]): void {
+        this.state.bags = { ...this.state.bags, [category]: trackIds };
+        this.persist();
+    }
+
+    private updatePreference(trackId: string, changes: TrackPreference): void {
+        this.state.preferences = {
+            ...this.state.preferences,
+            [trackId]: { ...this.getPreference(trackId), ...changes },
+        };
+        this.persist();
+    }
+
+    private persist(): void {
+        // Serialised once the load settles, so the save includes what was on disk
+        (this.loading ?? Promise.resolve())
+            .then(() => this.storage.setItem(STORAGE_KEY, JSON.stringify(this.state)))
+            .catch(error => {
+                console.warn('Failed to save selection state:', error);
+            });
+    }
+}
@@ -0,0 +1,140 @@
+// SelectionStrategy.ts
+// Pluggable rules for picking the next track within a category.
+// Strategies only choose — they never touch playback. All randomness goes
+// through context.random so a seeded generator makes every pick reproducible.
+
+import type { TrackEntry } from './TrackRegistry';
+import { SelectionStore } from './SelectionStore';
+
+export type SelectionMode = 'no-repeat' | 'shuffle-bag' | 'least-recent' | 'weighted';
+
+export interface SelectionContext {
+    category: string;
+    // Playable candidates — banned tracks are already filtered out
+    tracks: TrackEntry[];
+    store: SelectionStore;
+    random: () => number;
+}
+
+export interface SelectionStrategy {
+    mode: SelectionMode | string;
+    select(context: SelectionContext): TrackEntry | null;
+}
+
+// mulberry32 — tiny, fast and good enough for shuffling a playlist
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const pickRandom = <T>(items: T[], random: () => number): T =>
+    items[Math.floor(random() * items.length)];
+
+// Candidates minus whatever played last in this category, unless that empties the list
+const withoutLastPlayed = (context: SelectionContext): TrackEntry[] => {
+    const lastPlayed = context.store.getLastPlayed(context.category);
+    const available = context.tracks.filter(track => track.id !== lastPlayed);
+    return available.length > 0 ? available : context.tracks;
+};
+
+// Original behaviour — random, never the same track twice in a row
+export class NoRepeatStrategy implements SelectionStrategy {
+    mode = 'no-repeat';
+
+    select(context: SelectionContext): TrackEntry | null {
+        if (context.tracks.length === 0) return null;
+        return pickRandom(withoutLastPlayed(context), context.random);
+    }
+}
+
+// Every track in the category plays once before any repeats.
+// The bag is persisted, so a round carries on across app launches.
+export class ShuffleBagStrategy implements SelectionStrategy {
+    mode = 'shuffle-bag';
+
+    select(context: SelectionContext): TrackEntry | null {
+        if (context.tracks.length === 0) return null;
+
+        const candidateIds = new Set(context.tracks.map(track => track.id));
+        // Drop IDs that left the catalog or got banned since the bag was filled
+        let bag = context.store.getBag(context.category).filter(id => candidateIds.has(id));
+
+        if (bag.length === 0) {
+            bag = context.tracks.map(track => track.id);
+        }
+
+        // Holding back the last-played track stops a new round opening
+        // with the same track that closed the previous one
+        const lastPlayed = context.store.getLastPlayed(context.category);
+        const drawable = bag.length > 1 ? bag.filter(id => id !== lastPlayed) : bag;
+        const drawnId = pickRandom(drawable, context.random);
+
+        context.store.setBag(context.category, bag.filter(id => id !== drawnId));
+        return context.tracks.find(track => track.id === drawnId) ?? null;
+    }
+}
+
+// Plays whatever has gone longest without playing, using the persisted
+// cross-session history. Never-played tracks come first; ties break randomly.
+export class LeastRecentStrategy implements SelectionStrategy {
+    mode = 'least-recent';
+
+    select(context: SelectionContext): TrackEntry | null {
+        if (context.tracks.length === 0) return null;
+
+        const lastPlayedAt = (track: TrackEntry) => context.store.getLastPlayedAt(track.id) ?? -Infinity;
+        const oldest = Math.min(...context.tracks.map(lastPlayedAt));
+        return pickRandom(context.tracks.filter(track => lastPlayedAt(track) === oldest), context.random);
+    }
+}
+
+// Favorites come up more often; each skip halves a track's chances
+export const FAVORITE_WEIGHT = 3;
+const SKIP_PENALTY = 0.5;
+const MIN_WEIGHT = 0.05;
+
+export class WeightedRandomStrategy implements SelectionStrategy {
+    mode = 'weighted';
+
+    select(context: SelectionContext): TrackEntry | null {
+        if (context.tracks.length === 0) return null;
+
+        const candidates = withoutLastPlayed(context);
+        const weights = candidates.map(track => this.getWeight(context, track));
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+        let roll = context.random() * total;
+        for (let i = 0; i < candidates.length; i++) {
+            roll -= weights[i];
+            if (roll < 0) return candidates[i];
+        }
+        return candidates[candidates.length - 1];
+    }
+
+    private getWeight(context: SelectionContext, track: TrackEntry): number {
+        const preference = context.store.getPreference(track.id);
+        let weight = preference.favorite ? FAVORITE_WEIGHT : 1;
+        weight *= Math.pow(SKIP_PENALTY, preference.skips ?? 0);
+        return Math.max(MIN_WEIGHT, weight);
+    }
+}
+
+export const createSelectionStrategy = (mode: SelectionMode): SelectionStrategy => {
+    switch (mode) {
+        case 'shuffle-bag':
+            return new ShuffleBagStrategy();
+        case 'least-recent':
+            return new LeastRecentStrategy();
+        case 'weighted':
+            return new WeightedRandomStrategy();
+        case 'no-repeat':
+        default:
+            return new NoRepeatStrategy();
+    }
+};
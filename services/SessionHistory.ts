@@ -0,0 +1,72 @@
+// SessionHistory.ts
+// Finished sessions, complete or cut short, kept across app launches.
+// Same fire-and-forget persistence as SelectionStore.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { KeyValueStorage } from './SelectionStore';
+
+export interface SessionSummary {
+    energyType: 'warm' | 'cool';
+    // As confirmed on the intensity screen
+    intensity: number;
+    startedAt: number;
+    // Listening time — pauses and interruptions don't count
+    elapsedMillis: number;
+    // Null for open-ended sessions
+    plannedMillis: number | null;
+    tracks: { id: string; title?: string; artist?: string }[];
+    // Set when the session followed an intensity program
+    programName?: string;
+    // False when the listener left before the timer ran out
+    completed: boolean;
+}
+
+const STORAGE_KEY = 'entheosnow.sessions.v1';
+
+const MAX_SESSIONS = 100;
+
+export class SessionHistory {
+    private sessions: SessionSummary[] = [];
+    private loading: Promise<void> | null = null;
+
+    constructor(private storage: KeyValueStorage = AsyncStorage) {}
+
+    // Safe to call repeatedly — storage is only read once
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.read();
+        }
+        return this.loading;
+    }
+
+    // Most recent first
+    getSessions(): SessionSummary[] {
+        return [...this.sessions].reverse();
+    }
+
+    async record(summary: SessionSummary): Promise<void> {
+        // Loading first keeps an early record from overwriting stored history
+        await this.load();
+        this.sessions = [...this.sessions, summary].slice(-MAX_SESSIONS);
+        this.storage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, sessions: this.sessions })).catch(error => {
+            console.warn('Failed to save session history:', error);
+        });
+    }
+
+    private async read(): Promise<void> {
+        try {
+            const raw = await this.storage.getItem(STORAGE_KEY);
+            if (!raw) return;
+
+            const parsed = JSON.parse(raw);
+            if (parsed?.version !== 1) {
+                console.warn('Ignoring session history with unknown version');
+                return;
+            }
+            this.sessions = parsed.sessions ?? [];
+            console.log(`Loaded session history: ${this.sessions.length} sessions`);
+        } catch (error) {
+            console.warn('Failed to load session history:', error);
+        }
+    }
+}
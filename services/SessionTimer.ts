@@ -0,0 +1,94 @@
+// SessionTimer.ts
+// Counts listening time for a session and fires the wind-down and
+// fade-out marks for timed ones. Pausing stops the clock, so a phone
+// call in the middle doesn't eat into the session.
+
+export interface SessionTimerCallbacks {
+    // Entering the last stretch — the visualizer starts slowing down
+    onWindDown(remainingMillis: number): void;
+    // Time to fade the music out so it reaches silence right at the end
+    onFadeOut(): void;
+}
+
+// Long enough for the visualizer to visibly settle
+const WIND_DOWN_MILLIS = 30000;
+
+export class SessionTimer {
+    private elapsedBeforeResume: number = 0;
+    private resumedAt: number | null = null;
+    private timeouts: ReturnType<typeof setTimeout>[] = [];
+    private windDownFired: boolean = false;
+    private fadeOutFired: boolean = false;
+
+    // A null duration just counts up — nothing fires
+    constructor(
+        private durationMillis: number | null,
+        private fadeOutMillis: number,
+        private callbacks: SessionTimerCallbacks,
+        private now: () => number = Date.now
+    ) {}
+
+    pause(): void {
+        if (this.resumedAt === null) return;
+        this.elapsedBeforeResume += this.now() - this.resumedAt;
+        this.resumedAt = null;
+        this.clearTimeouts();
+    }
+
+    resume(): void {
+        if (this.resumedAt !== null) return;
+        this.resumedAt = this.now();
+        this.schedule();
+    }
+
+    cancel(): void {
+        this.pause();
+    }
+
+    isRunning(): boolean {
+        return this.resumedAt !== null;
+    }
+
+    getElapsedMillis(): number {
+        const running = this.resumedAt === null ? 0 : this.now() - this.resumedAt;
+        return this.elapsedBeforeResume + running;
+    }
+
+    getDurationMillis(): number | null {
+        return this.durationMillis;
+    }
+
+    // Null for open-ended sessions
+    getRemainingMillis(): number | null {
+        if (this.durationMillis === null) return null;
+        return Math.max(0, this.durationMillis - this.getElapsedMillis());
+    }
+
+    private schedule(): void {
+        const remaining = this.getRemainingMillis();
+        if (remaining === null) return;
+
+        // Short sessions wind down for their second half at most
+        const windDownMillis = Math.min(WIND_DOWN_MILLIS, (this.durationMillis ?? 0) / 2);
+        const fadeOutMillis = Math.min(this.fadeOutMillis, remaining);
+
+        if (!this.windDownFired) {
+            this.timeouts.push(setTimeout(() => {
+                this.windDownFired = true;
+                this.callbacks.onWindDown(this.getRemainingMillis() ?? 0);
+            }, Math.max(0, remaining - windDownMillis)));
+        }
+
+        if (!this.fadeOutFired) {
+            this.timeouts.push(setTimeout(() => {
+                this.fadeOutFired = true;
+                this.callbacks.onFadeOut();
+            }, Math.max(0, remaining - fadeOutMillis)));
+        }
+    }
+
+    private clearTimeouts(): void {
+        this.timeouts.forEach(timeout => clearTimeout(timeout));
+        this.timeouts = [];
+    }
+}
@@ -0,0 +1,143 @@
+// SpotifyAuth.ts
+// Authorization Code with PKCE — no client secret lives in the app.
+// The browser hands the code back through the app's entheosnow:// scheme.
+// Endpoints and transport are injectable so a local mock server can stand in for Spotify.
+
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+
+export interface SpotifyTokens {
+    accessToken: string;
+    refreshToken: string | null;
+    // Epoch ms — refreshed a little before this
+    expiresAt: number;
+}
+
+export interface SpotifyAuthConfig {
+    clientId: string;
+    redirectUri: string;
+    accountsBaseUrl: string;
+    scopes: string[];
+    fetch: typeof fetch;
+    // Opens the consent page and resolves with the redirect URL, or null if the user backed out
+    openAuthSession: (authorizeUrl: string, redirectUri: string) => Promise<string | null>;
+}
+
+export const SPOTIFY_SCOPES = [
+    'user-read-playback-state',
+    'user-modify-playback-state',
+    'playlist-read-private',
+];
+
+export const DEFAULT_REDIRECT_URI = 'entheosnow://spotify-auth';
+export const DEFAULT_ACCOUNTS_BASE_URL = 'https://accounts.spotify.com';
+
+export class SpotifyAuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SpotifyAuthError';
+    }
+}
+
+// RFC 7636 unreserved characters
+const VERIFIER_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+
+export const createCodeVerifier = (length: number = 64): string => {
+    const bytes = Crypto.getRandomBytes(length);
+    let verifier = '';
+    for (let i = 0; i < bytes.length; i++) {
+        verifier += VERIFIER_CHARSET[bytes[i] % VERIFIER_CHARSET.length];
+    }
+    return verifier;
+};
+
+// base64url(SHA-256(verifier)) with padding stripped
+export const createCodeChallenge = async (verifier: string): Promise<string> => {
+    const digest = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        verifier,
+        { encoding: Crypto.CryptoEncoding.BASE64 }
+    );
+    return digest.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const buildAuthorizeUrl = (config: SpotifyAuthConfig, challenge: string, state: string): string => {
+    const params = new URLSearchParams({
+        client_id: config.clientId,
+        response_type: 'code',
+        redirect_uri: config.redirectUri,
+        code_challenge_method: 'S256',
+        code_challenge: challenge,
+        scope: config.scopes.join(' '),
+        state,
+    });
+    return `${config.accountsBaseUrl}/authorize?${params.toString()}`;
+};
+
+export const openAuthSessionInBrowser = async (authorizeUrl: string, redirectUri: string): Promise<string | null> => {
+    const result = await WebBrowser.openAuthSessionAsync(authorizeUrl, redirectUri);
+    return result.type === 'success' ? result.url : null;
+};
+
+const requestTokens = async (config: SpotifyAuthConfig, params: Record<string, string>): Promise<SpotifyTokens> => {
+    const response = await config.fetch(`${config.accountsBaseUrl}/api/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ client_id: config.clientId, ...params }).toString(),
+    });
+
+    if (!response.ok) {
+        throw new SpotifyAuthError(`Token request failed (${response.status})`);
+    }
+
+    const body = await response.json();
+    return {
+        accessToken: body.access_token,
+        refreshToken: body.refresh_token ?? params.refresh_token ?? null,
+        expiresAt: Date.now() + body.expires_in * 1000,
+    };
+};
+
+// Full interactive flow — opens the consent page and trades the code for tokens
+export const authorizeWithPkce = async (config: SpotifyAuthConfig): Promise<SpotifyTokens> => {
+    const verifier = createCodeVerifier();
+    const challenge = await createCodeChallenge(verifier);
+    const state = createCodeVerifier(16);
+
+    const redirectUrl = await config.openAuthSession(
+        buildAuthorizeUrl(config, challenge, state),
+        config.redirectUri
+    );
+    if (!redirectUrl) {
+        throw new SpotifyAuthError('Spotify sign-in was cancelled');
+    }
+
+    const query = redirectUrl.includes('?') ? redirectUrl.slice(redirectUrl.indexOf('?') + 1) : '';
+    const params = new URLSearchParams(query);
+
+    if (params.get('error')) {
+        throw new SpotifyAuthError(`Spotify sign-in failed: ${params.get('error')}`);
+    }
+    if (params.get('state') !== state) {
+        throw new SpotifyAuthError('Spotify sign-in returned a mismatched state');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+        throw new SpotifyAuthError('Spotify sign-in returned no authorization code');
+    }
+
+    return requestTokens(config, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+        code_verifier: verifier,
+    });
+};
+
+export const refreshAccessToken = async (config: SpotifyAuthConfig, refreshToken: string): Promise<SpotifyTokens> => {
+    return requestTokens(config, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+    });
+};
@@ -0,0 +1,443 @@
+// SpotifyProvider.ts
+// Plays through the user's Spotify app via the Web API (Premium required).
+// Each warm-*/cool-* category maps to a playlist the user chooses;
+// tracks are picked from that playlist rather than from TrackRegistry.
+
+import { MusicProvider, PlaybackStatusListener } from './MusicProvider';
+import { TrackEntry, TrackRegistry } from './TrackRegistry';
+import type { TrackPreference } from './SelectionStore';
+import { FAVORITE_WEIGHT } from './SelectionStrategy';
+import {
+    SpotifyAuthConfig,
+    SpotifyTokens,
+    SPOTIFY_SCOPES,
+    DEFAULT_REDIRECT_URI,
+    DEFAULT_ACCOUNTS_BASE_URL,
+    authorizeWithPkce,
+    refreshAccessToken,
+    openAuthSessionInBrowser,
+} from './SpotifyAuth';
+
+export interface SpotifyProviderConfig {
+    clientId: string;
+    // Category (e.g. 'warm-high') → Spotify playlist ID
+    playlists: Record<string, string>;
+    redirectUri?: string;
+    apiBaseUrl?: string;
+    accountsBaseUrl?: string;
+    pollIntervalMs?: number;
+    // Restores a previous sign-in without prompting
+    tokens?: SpotifyTokens;
+    // Called whenever tokens change so the caller can persist them
+    onTokensChanged?: (tokens: SpotifyTokens) => void;
+    fetch?: typeof fetch;
+    openAuthSession?: SpotifyAuthConfig['openAuthSession'];
+    // Favorites and bans, keyed by track URI — the shared selection store by default
+    getPreference?: (trackId: string) => TrackPreference;
+    random?: () => number;
+}
+
+export class SpotifyApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'SpotifyApiError';
+    }
+}
+
+const DEFAULT_API_BASE_URL = 'https://api.spotify.com/v1';
+
+// Refresh this long before expiry so a request never races the deadline
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+
+// Spotify's page size cap for playlist items
+const PLAYLIST_PAGE_SIZE = 100;
+// Stops a runaway `next` chain — well beyond any playlist meant for a session
+const MAX_PLAYLIST_PAGES = 50;
+
+// The slices of the Web API responses this provider reads
+
+interface SpotifyTrackObject {
+    uri: string;
+    name: string;
+    duration_ms: number;
+    artists?: { name: string }[];
+}
+
+interface SpotifyPlaylistPage {
+    // Track is null for items removed from the catalog or local files
+    items: { track: SpotifyTrackObject | null }[];
+    next: string | null;
+}
+
+interface SpotifyDevicesResponse {
+    devices: { id: string; is_active: boolean }[];
+}
+
+interface SpotifyPlayerState {
+    is_playing: boolean;
+    progress_ms: number | null;
+    item: { uri: string; duration_ms: number } | null;
+}
+
+interface SpotifyErrorResponse {
+    error?: { status?: number; message?: string };
+}
+
+interface PlaylistTrack {
+    entry: TrackEntry;
+    durationMillis: number;
+}
+
+export class SpotifyProvider implements MusicProvider {
+    name = 'Spotify';
+    private currentTrackEntry: TrackEntry | null = null;
+    private playing: boolean = false;
+    private positionMillis: number = 0;
+    private durationMillis: number | null = null;
+    private statusListener: PlaybackStatusListener | null = null;
+
+    private tokens: SpotifyTokens | null;
+    private deviceId: string | null = null;
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    private playlists: Record<string, string>;
+    // Playlist contents, fetched once per category
+    private playlistCache: Record<string, PlaylistTrack[]> = {};
+    private durationsByUri: Record<string, number> = {};
+    private lastPlayedPerCategory: Record<string, string> = {};
+
+    private readonly auth: SpotifyAuthConfig;
+    private readonly apiBaseUrl: string;
+    private readonly pollIntervalMs: number;
+    private readonly onTokensChanged?: (tokens: SpotifyTokens) => void;
+    private readonly getPreference: (trackId: string) => TrackPreference;
+    private readonly random: () => number;
+
+    constructor(config: SpotifyProviderConfig) {
+        this.playlists = { ...config.playlists };
+        this.tokens = config.tokens ?? null;
+        this.apiBaseUrl = config.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+        this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+        this.onTokensChanged = config.onTokensChanged;
+        this.getPreference = config.getPreference ?? (trackId => TrackRegistry.getPreference(trackId));
+        this.random = config.random ?? Math.random;
+        this.auth = {
+            clientId: config.clientId,
+            redirectUri: config.redirectUri ?? DEFAULT_REDIRECT_URI,
+            accountsBaseUrl: config.accountsBaseUrl ?? DEFAULT_ACCOUNTS_BASE_URL,
+            scopes: SPOTIFY_SCOPES,
+            fetch: config.fetch ?? fetch,
+            openAuthSession: config.openAuthSession ?? openAuthSessionInBrowser,
+        };
+    }
+
+    async initialize(): Promise<void> {
+        if (!this.tokens) {
+            this.setTokens(await authorizeWithPkce(this.auth));
+        }
+        console.log('SpotifyProvider initialized.');
+    }
+
+    setPlaylistForCategory(category: string, playlistId: string): void {
+        this.playlists[category] = playlistId;
+        delete this.playlistCache[category];
+    }
+
+    getPlaylists(): Record<string, string> {
+        return { ...this.playlists };
+    }
+
+    // Picks a track from the category's playlist, avoiding an immediate repeat.
+    // Bans and favorites apply just as they do to the bundled catalog.
+    async selectTrack(category: string): Promise<TrackEntry | null> {
+        const tracks = await this.getPlaylistTracks(category);
+        if (tracks.length === 0) {
+            console.warn(`No Spotify tracks for category: ${category}`);
+            return null;
+        }
+
+        // Banned tracks sit out — unless that would leave the session silent
+        const allowed = tracks.filter(track => !this.getPreference(track.entry.id).banned);
+        if (allowed.length === 0) {
+            console.warn(`Every Spotify track in ${category} is banned, ignoring bans`);
+        }
+        const candidates = allowed.length > 0 ? allowed : tracks;
+
+        const lastPlayed = this.lastPlayedPerCategory[category];
+        const available = candidates.length > 1
+            ? candidates.filter(track => track.entry.id !== lastPlayed)
+            : candidates;
+        const selected = this.pickWeighted(available);
+        this.lastPlayedPerCategory[category] = selected.entry.id;
+
+        console.log(`Selected Spotify track: ${selected.entry.id} from category: ${category}`);
+        return selected.entry;
+    }
+
+    async loadTrack(trackEntry: TrackEntry): Promise<void> {
+        await this.pause();
+
+        this.currentTrackEntry = trackEntry;
+        this.positionMillis = 0;
+        this.durationMillis = this.durationsByUri[trackEntry.id] ?? null;
+        this.emitStatus();
+        console.log(`Loaded Spotify track: ${trackEntry.id}`);
+    }
+
+    async play(): Promise<void> {
+        if (!this.currentTrackEntry) throw new Error('No track loaded');
+
+        const deviceId = await this.getDeviceId();
+        await this.request('PUT', `/me/player/play?device_id=${encodeURIComponent(deviceId)}`, {
+            uris: [this.currentTrackEntry.id],
+            position_ms: this.positionMillis,
+        });
+
+        this.playing = true;
+        this.startPolling();
+        this.emitStatus();
+        console.log('Playing Spotify track');
+    }
+
+    async pause(): Promise<void> {
+        // Spotify rejects pause on an idle player, so only send it when something is playing
+        if (!this.currentTrackEntry || !this.playing) return;
+        this.stopPolling();
+        await this.request('PUT', '/me/player/pause');
+        this.playing = false;
+        this.emitStatus();
+        console.log('Paused Spotify track');
+    }
+
+    async stop(): Promise<void> {
+        if (!this.currentTrackEntry) return;
+        await this.pause();
+        this.positionMillis = 0;
+        this.emitStatus();
+        console.log('Stopped Spotify track');
+    }
+
+    async setVolume(volume: number): Promise<void> {
+        const percent = Math.round(Math.max(0, Math.min(1, volume)) * 100);
+        await this.request('PUT', `/me/player/volume?volume_percent=${percent}`);
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    async cleanup(): Promise<void> {
+        this.stopPolling();
+        if (this.playing) {
+            // Best effort — the remote device may already be gone
+            await this.request('PUT', '/me/player/pause').catch(() => {});
+        }
+        this.playing = false;
+        this.currentTrackEntry = null;
+        this.positionMillis = 0;
+        this.durationMillis = null;
+        this.emitStatus();
+        console.log('SpotifyProvider cleaned up');
+    }
+
+    getCurrentTrack(): TrackEntry | null {
+        return this.currentTrackEntry;
+    }
+
+    getPositionMillis(): number {
+        return this.positionMillis;
+    }
+
+    getDurationMillis(): number | null {
+        return this.durationMillis;
+    }
+
+    setOnStatusUpdate(listener: PlaybackStatusListener | null): void {
+        this.statusListener = listener;
+    }
+
+    getTokens(): SpotifyTokens | null {
+        return this.tokens;
+    }
+
+    private setTokens(tokens: SpotifyTokens): void {
+        this.tokens = tokens;
+        this.onTokensChanged?.(tokens);
+    }
+
+    private async getAccessToken(): Promise<string> {
+        if (!this.tokens) {
+            throw new SpotifyApiError(401, 'Not signed in to Spotify');
+        }
+        if (this.tokens.refreshToken && this.tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now()) {
+            this.setTokens(await refreshAccessToken(this.auth, this.tokens.refreshToken));
+        }
+        return this.tokens.accessToken;
+    }
+
+    // Favorites come up FAVORITE_WEIGHT times as often as everything else
+    private pickWeighted(tracks: PlaylistTrack[]): PlaylistTrack {
+        const weights = tracks.map(track => this.getPreference(track.entry.id).favorite ? FAVORITE_WEIGHT : 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+        let roll = this.random() * total;
+        for (let i = 0; i < tracks.length; i++) {
+            roll -= weights[i];
+            if (roll < 0) return tracks[i];
+        }
+        return tracks[tracks.length - 1];
+    }
+
+    // Path is relative to the API base, or a full URL the API handed back (e.g. a `next` page)
+    private async request<T>(method: string, path: string, body?: object, isRetry: boolean = false): Promise<T | null> {
+        const accessToken = await this.getAccessToken();
+        const url = path.startsWith(this.apiBaseUrl) ? path : `${this.apiBaseUrl}${path}`;
+        const response = await this.auth.fetch(url, {
+            method,
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: body ? JSON.stringify(body) : undefined,
+        });
+
+        // Token revoked or expired early — refresh once and retry
+        if (response.status === 401 && !isRetry && this.tokens?.refreshToken) {
+            this.setTokens(await refreshAccessToken(this.auth, this.tokens.refreshToken));
+            return this.request<T>(method, path, body, true);
+        }
+
+        if (response.status === 204) return null;
+
+        if (!response.ok) {
+            let message = `Spotify request failed: ${method} ${path} (${response.status})`;
+            try {
+                const errorBody: SpotifyErrorResponse = await response.json();
+                if (errorBody?.error?.message) message = `Spotify: ${errorBody.error.message}`;
+            } catch {
+                // Non-JSON error body — keep the generic message
+            }
+            throw new SpotifyApiError(response.status, message);
+        }
+
+        const text = await response.text();
+        return text ? JSON.parse(text) as T : null;
+    }
+
+    // Web API playback needs a target device — prefer whichever is active
+    private async getDeviceId(): Promise<string> {
+        if (this.deviceId) return this.deviceId;
+
+        const result = await this.request<SpotifyDevicesResponse>('GET', '/me/player/devices');
+        const devices = result?.devices ?? [];
+        const device = devices.find(candidate => candidate.is_active) ?? devices[0];
+
+        if (!device) {
+            throw new SpotifyApiError(404, 'No Spotify device available — open Spotify on this phone first');
+        }
+
+        this.deviceId = device.id;
+        return device.id;
+    }
+
+    private async getPlaylistTracks(category: string): Promise<PlaylistTrack[]> {
+        if (this.playlistCache[category]) return this.playlistCache[category];
+
+        const playlistId = this.playlists[category];
+        if (!playlistId) return [];
+
+        // `next` has to be in the field filter or Spotify leaves it out
+        const fields = 'next,items(track(uri,name,duration_ms,artists(name)))';
+        let path: string | null =
+            `/playlists/${encodeURIComponent(playlistId)}/tracks?limit=${PLAYLIST_PAGE_SIZE}&fields=${encodeURIComponent(fields)}`;
+
+        const items: SpotifyTrackObject[] = [];
+        for (let page = 0; path && page < MAX_PLAYLIST_PAGES; page++) {
+            const result: SpotifyPlaylistPage | null = await this.request<SpotifyPlaylistPage>('GET', path);
+            for (const item of result?.items ?? []) {
+                if (item.track?.uri) items.push(item.track);
+            }
+            path = result?.next ?? null;
+        }
+
+        const tracks: PlaylistTrack[] = items.map(track => ({
+            entry: {
+                id: track.uri,
+                file: null,
+                title: track.name,
+                artist: (track.artists ?? []).map(artist => artist.name).join(', '),
+            },
+            durationMillis: track.duration_ms,
+        }));
+
+        for (const track of tracks) {
+            this.durationsByUri[track.entry.id] = track.durationMillis;
+        }
+        this.playlistCache[category] = tracks;
+        return tracks;
+    }
+
+    private startPolling(): void {
+        this.stopPolling();
+        this.pollTimer = setInterval(() => {
+            this.pollPlaybackState().catch(error => {
+                console.warn('Spotify playback poll failed:', error);
+            });
+        }, this.pollIntervalMs);
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    // Spotify has no push events for third-party apps, so position and
+    // track end are read back from the player state on an interval
+    private async pollPlaybackState(): Promise<void> {
+        if (!this.playing || !this.currentTrackEntry) return;
+
+        const state = await this.request<SpotifyPlayerState>('GET', '/me/player');
+
+        const expectedUri = this.currentTrackEntry.id;
+        const lastPosition = this.positionMillis;
+
+        // Another track took over (Spotify autoplay) or playback stopped near the end
+        const movedOn = !!state?.item && state.item.uri !== expectedUri;
+        const nearEnd = this.durationMillis !== null
+            && lastPosition >= this.durationMillis - this.pollIntervalMs * 2;
+        const stoppedAtEnd = !state?.is_playing && nearEnd;
+
+        if (movedOn || stoppedAtEnd) {
+            this.stopPolling();
+            this.playing = false;
+            this.positionMillis = this.durationMillis ?? lastPosition;
+            console.log('Spotify track finished playing');
+            this.emitStatus(true);
+            return;
+        }
+
+        if (!state) return;
+
+        // Paused from the Spotify app itself — mirror it rather than fight it
+        if (!state.is_playing) {
+            this.stopPolling();
+            this.playing = false;
+        }
+
+        this.positionMillis = state.progress_ms ?? lastPosition;
+        this.durationMillis = state.item?.duration_ms ?? this.durationMillis;
+        this.emitStatus();
+    }
+
+    private emitStatus(didJustFinish: boolean = false): void {
+        this.statusListener?.({
+            track: this.currentTrackEntry,
+            isPlaying: this.playing,
+            positionMillis: this.positionMillis,
+            durationMillis: this.durationMillis,
+            didJustFinish,
+        });
+    }
+}
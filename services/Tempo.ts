@@ -0,0 +1,27 @@
+// Tempo.ts
+// Heartbeat timing from a track's tempo. A lub-dub cycle feels natural
+// between roughly 50 and 120 beats a minute, so faster or slower songs
+// are followed at half or double time to land in that range.
+
+export const MIN_CYCLE_MILLIS = 500;
+export const MAX_CYCLE_MILLIS = 1200;
+
+export interface HeartbeatCycle {
+    cycleMillis: number;
+    // Song beats per heartbeat — 2 is half time, 0.5 double time
+    beatsPerCycle: number;
+}
+
+export const getHeartbeatCycle = (bpm: number): HeartbeatCycle => {
+    const beatMillis = 60000 / bpm;
+    let beatsPerCycle = 1;
+    while (beatMillis * beatsPerCycle < MIN_CYCLE_MILLIS) beatsPerCycle *= 2;
+    while (beatMillis * beatsPerCycle > MAX_CYCLE_MILLIS) beatsPerCycle /= 2;
+    return { cycleMillis: beatMillis * beatsPerCycle, beatsPerCycle };
+};
+
+// Wait until the next cycle start, on a grid of cycleMillis through offsetMillis
+export const getMillisToNextCycle = (positionMillis: number, cycleMillis: number, offsetMillis: number): number => {
+    const phase = (((positionMillis - offsetMillis) % cycleMillis) + cycleMillis) % cycleMillis;
+    return phase === 0 ? 0 : cycleMillis - phase;
+};
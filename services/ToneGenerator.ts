@@ -0,0 +1,116 @@
+// ToneGenerator.ts
+// Entrainment tones synthesised as raw PCM. Pure — no audio APIs — so the
+// output can be checked sample by sample.
+//   binaural   — a slightly different pure tone in each ear, heard as a beat
+//                at the difference. Needs headphones.
+//   isochronic — a single tone pulsed on and off at the beat rate. Works on speakers.
+
+export type EntrainmentMode = 'binaural' | 'isochronic';
+
+export interface EntrainmentTone {
+    mode: EntrainmentMode;
+    carrierHz: number;
+    beatHz: number;
+}
+
+export interface PcmBuffer {
+    sampleRate: number;
+    channels: 1 | 2;
+    // Interleaved when stereo
+    samples: Int16Array;
+}
+
+export interface ToneOptions {
+    sampleRate: number;
+    // Length of one loop of the tone
+    durationSeconds: number;
+    // Peak level, 0–1
+    amplitude: number;
+}
+
+export const DEFAULT_TONE_OPTIONS: ToneOptions = {
+    sampleRate: 22050,
+    durationSeconds: 10,
+    amplitude: 0.5,
+};
+
+// Brainwave bands the beat frequency is drawn from
+//   cool — theta (4–8 Hz) at low intensity, rising into alpha (8–12 Hz)
+//   warm — beta (14–26 Hz), higher with intensity
+const BEAT_BANDS = {
+    cool: { low: 4, high: 12 },
+    warm: { low: 14, high: 26 },
+};
+
+// Low carriers sit under the music instead of cutting through it
+const CARRIER_HZ = { cool: 180, warm: 240 };
+
+// Beats snap to this step so a slow intensity ramp doesn't regenerate the tone on every update
+const BEAT_STEP_HZ = 0.5;
+
+// Share of each isochronic period spent sounding, and of that spent fading in or out
+const PULSE_DUTY = 0.5;
+const PULSE_EDGE = 0.1;
+
+export const chooseEntrainmentTone = (
+    energyState: 'warm' | 'cool',
+    intensity: number,
+    mode: EntrainmentMode
+): EntrainmentTone => {
+    const band = BEAT_BANDS[energyState];
+    const position = Math.max(0, Math.min(1, intensity));
+    const beatHz = band.low + (band.high - band.low) * position;
+    return {
+        mode,
+        carrierHz: CARRIER_HZ[energyState],
+        beatHz: Math.round(beatHz / BEAT_STEP_HZ) * BEAT_STEP_HZ,
+    };
+};
+
+export const isSameTone = (a: EntrainmentTone | null, b: EntrainmentTone | null): boolean =>
+    a === b || (a !== null && b !== null &&
+        a.mode === b.mode && a.carrierHz === b.carrierHz && a.beatHz === b.beatHz);
+
+const toSample = (value: number): number =>
+    Math.round(Math.max(-1, Math.min(1, value)) * 32767);
+
+// Smoothed on/off gate for one isochronic period, phase 0–1
+const pulseGate = (phase: number): number => {
+    if (phase >= PULSE_DUTY) return 0;
+    if (phase < PULSE_EDGE) return 0.5 - 0.5 * Math.cos((Math.PI * phase) / PULSE_EDGE);
+    if (phase > PULSE_DUTY - PULSE_EDGE) {
+        return 0.5 + 0.5 * Math.cos((Math.PI * (phase - (PULSE_DUTY - PULSE_EDGE))) / PULSE_EDGE);
+    }
+    return 1;
+};
+
+// Every frequency is rounded to a whole number of cycles over the buffer,
+// so the buffer loops without a click at the seam
+export const generateTone = (tone: EntrainmentTone, options: Partial<ToneOptions> = {}): PcmBuffer => {
+    const { sampleRate, durationSeconds, amplitude } = { ...DEFAULT_TONE_OPTIONS, ...options };
+    const frameCount = Math.round(sampleRate * durationSeconds);
+    const loopSeconds = frameCount / sampleRate;
+    const wholeCycles = (hz: number) => Math.max(1, Math.round(hz * loopSeconds)) / loopSeconds;
+
+    if (tone.mode === 'binaural') {
+        const leftHz = wholeCycles(tone.carrierHz - tone.beatHz / 2);
+        const rightHz = wholeCycles(tone.carrierHz + tone.beatHz / 2);
+        const samples = new Int16Array(frameCount * 2);
+        for (let frame = 0; frame < frameCount; frame++) {
+            const seconds = frame / sampleRate;
+            samples[frame * 2] = toSample(amplitude * Math.sin(2 * Math.PI * leftHz * seconds));
+            samples[frame * 2 + 1] = toSample(amplitude * Math.sin(2 * Math.PI * rightHz * seconds));
+        }
+        return { sampleRate, channels: 2, samples };
+    }
+
+    const carrierHz = wholeCycles(tone.carrierHz);
+    const beatHz = wholeCycles(tone.beatHz);
+    const samples = new Int16Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        const seconds = frame / sampleRate;
+        const gate = pulseGate((beatHz * seconds) % 1);
+        samples[frame] = toSample(amplitude * gate * Math.sin(2 * Math.PI * carrierHz * seconds));
+    }
+    return { sampleRate, channels: 1, samples };
+};
@@ -0,0 +1,65 @@
+// TrackAnalysis.ts
+// Precomputed beat timestamps and loudness envelopes, keyed by TrackEntry.id.
+// Generated offline by scripts/analyze-tracks.js into assets/audio/analysis.json;
+// tracks missing from it simply have no analysis and the visuals keep their
+// own timing.
+
+import analysisData from '../assets/audio/analysis.json';
+
+export interface TrackAnalysis {
+    // Estimated tempo, null when the tracker couldn't settle on one
+    bpm: number | null;
+    // Beat times from the start of the track, ascending
+    beats: number[];
+    // Loudness sampled every intervalMillis, scaled so the loudest point is 1
+    envelope: { intervalMillis: number; values: number[] };
+}
+
+const ANALYSIS_VERSION = 1;
+
+const isTrackAnalysis = (value: any): value is TrackAnalysis =>
+    typeof value === 'object' && value !== null &&
+    Array.isArray(value.beats) &&
+    typeof value.envelope?.intervalMillis === 'number' &&
+    Array.isArray(value.envelope?.values);
+
+const loadAnalyses = (data: any): Record<string, TrackAnalysis> => {
+    if (data?.version !== ANALYSIS_VERSION) {
+        console.warn('Ignoring track analysis with unknown version');
+        return {};
+    }
+
+    const analyses: Record<string, TrackAnalysis> = {};
+    for (const [id, analysis] of Object.entries(data.tracks ?? {})) {
+        if (isTrackAnalysis(analysis)) {
+            analyses[id] = analysis;
+        } else {
+            console.warn(`Ignoring malformed analysis for ${id}`);
+        }
+    }
+    return analyses;
+};
+
+const ANALYSES = loadAnalyses(analysisData);
+
+export const getTrackAnalysis = (trackId: string): TrackAnalysis | null =>
+    ANALYSES[trackId] ?? null;
+
+// Index of the first beat at or after positionMillis (beats.length if none)
+export const findBeatIndex = (beats: number[], positionMillis: number): number => {
+    let low = 0;
+    let high = beats.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (beats[middle] < positionMillis) low = middle + 1;
+        else high = middle;
+    }
+    return low;
+};
+
+// Loudness at a playback position, 0 to 1 — 0 past either end
+export const getAmplitudeAt = (analysis: TrackAnalysis, positionMillis: number): number => {
+    const { intervalMillis, values } = analysis.envelope;
+    const index = Math.floor(positionMillis / intervalMillis);
+    return values[index] ?? 0;
+};
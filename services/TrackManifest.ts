@@ -0,0 +1,111 @@
+// TrackManifest.ts
+// Versioned JSON description of the track catalog.
+// The bundled base manifest lives in assets/audio/manifest.json; overlay
+// manifests (user-added or downloaded packs) merge on top of it.
+
+import type { TrackEntry } from './TrackRegistry';
+import { AssetResolver } from './AssetResolver';
+
+// Highest manifest version this build understands
+export const MANIFEST_VERSION = 1;
+
+// Same shape as TrackEntry, but file is a path for the AssetResolver
+export interface ManifestTrack extends Omit<TrackEntry, 'file'> {
+    file: string;
+}
+
+export interface TrackManifest {
+    version: number;
+    id: string;
+    categories: Record<string, ManifestTrack[]>;
+}
+
+export class ManifestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ManifestError';
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Structural check only — value ranges are TrackRegistryValidator's job
+export const parseManifest = (data: unknown): TrackManifest => {
+    if (!isObject(data)) {
+        throw new ManifestError('Manifest must be a JSON object');
+    }
+    if (typeof data.version !== 'number' || data.version < 1) {
+        throw new ManifestError('Manifest has no valid version');
+    }
+    if (data.version > MANIFEST_VERSION) {
+        throw new ManifestError(`Manifest version ${data.version} is newer than supported (${MANIFEST_VERSION})`);
+    }
+    if (typeof data.id !== 'string' || data.id.length === 0) {
+        throw new ManifestError('Manifest has no id');
+    }
+    if (!isObject(data.categories)) {
+        throw new ManifestError(`Manifest ${data.id} has no categories`);
+    }
+
+    for (const [category, tracks] of Object.entries(data.categories)) {
+        if (!Array.isArray(tracks)) {
+            throw new ManifestError(`Manifest ${data.id}: category ${category} must be a list`);
+        }
+        tracks.forEach((track, index) => {
+            if (!isObject(track) || typeof track.id !== 'string' || typeof track.file !== 'string') {
+                throw new ManifestError(`Manifest ${data.id}: ${category}[${index}] needs a string id and file`);
+            }
+        });
+    }
+
+    return data as TrackManifest;
+};
+
+// Applies overlays in order. A track whose ID already exists replaces the
+// earlier entry (and may move category); new IDs and categories are added.
+export const mergeManifests = (
+    base: TrackManifest,
+    overlays: TrackManifest[]
+): Record<string, ManifestTrack[]> => {
+    const merged: Record<string, ManifestTrack[]> = {};
+    for (const [category, tracks] of Object.entries(base.categories)) {
+        merged[category] = [...tracks];
+    }
+
+    for (const overlay of overlays) {
+        for (const [category, tracks] of Object.entries(overlay.categories)) {
+            for (const track of tracks) {
+                for (const existing of Object.keys(merged)) {
+                    merged[existing] = merged[existing].filter(candidate => candidate.id !== track.id);
+                }
+                merged[category] = [...(merged[category] ?? []), track];
+            }
+        }
+    }
+
+    return merged;
+};
+
+// Turns manifest paths into playable sources. Tracks whose file can't be
+// resolved are dropped so selection never lands on something unplayable.
+export const resolveManifestTracks = (
+    tracksByCategory: Record<string, ManifestTrack[]>,
+    resolve: AssetResolver
+): Record<string, TrackEntry[]> => {
+    const registry: Record<string, TrackEntry[]> = {};
+
+    for (const [category, tracks] of Object.entries(tracksByCategory)) {
+        registry[category] = [];
+        for (const track of tracks) {
+            const file = resolve(track.file);
+            if (file === null) {
+                console.warn(`Dropping ${track.id}: no bundled asset for ${track.file}`);
+                continue;
+            }
+            registry[category].push({ ...track, file });
+        }
+    }
+
+    return registry;
+};
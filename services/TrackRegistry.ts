@@ -1,175 +1,263 @@
 // TrackRegistry.ts
-// Central catalog of all available tracks.
-// Adding new tracks = add an entry to the relevant category array.
+// Central catalog of all available tracks, loaded from a JSON manifest.
+// Adding new tracks = add an entry to assets/audio/manifest.json and,
+// for bundled files, a line in AssetResolver.
 // Nothing else in the codebase needs to change.
 
+import {
+    DEFAULT_LICENSE_POLICY,
+    LicensePolicy,
+    RegistryIssue,
+    applyLicensePolicy,
+    validateRegistry,
+} from './TrackRegistryValidator';
+import { TrackManifest, parseManifest, mergeManifests, resolveManifestTracks } from './TrackManifest';
+import { resolveAsset } from './AssetResolver';
+import { SelectionStore, TrackPreference } from './SelectionStore';
+import { SelectionMode, SelectionStrategy, createSelectionStrategy, createSeededRandom } from './SelectionStrategy';
+import { EnergyCandidate, getIntensityLevel, matchByEnergy } from './EnergyMatcher';
+import { ArtistCredits, buildCredits } from './Credits';
+import baseManifestData from '../assets/audio/manifest.json';
+
 export interface TrackEntry {
     id: string;
     file: any;
     title?: string;
     artist?: string;
     license?: string;
+    bpm?: number;
+    durationSeconds?: number;
+    key?: string;          // e.g. 'A minor', 'F# major'
+    energy?: number;       // 0 = stillest, 1 = most driving
+    moods?: string[];
+    gainDb?: number;       // loudness correction applied at load time
 }
 
-const REGISTRY: Record<string, TrackEntry[]> = {
-    'warm-low': [
-        {
-            id: 'warm-low-1',
-            file: require('../assets/audio/warm/warm-low.mp3'),
-            // Metadata unknown — omitted intentionally
-        },
-    ],
-    'warm-medium': [
-        {
-            id: 'warm-medium-1',
-            file: require('../assets/audio/warm/warm-medium.mp3'),
-        },
-        {
-            id: 'warm-medium-2',
-            file: require('../assets/audio/warm/holizna-jump.mp3'),
-            title: 'Jump!',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-    ],
-    'warm-high': [
-        {
-            id: 'warm-high-1',
-            file: require('../assets/audio/warm/warm-high.mp3'),
-            title: 'WE',
-            artist: 'Play House',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'warm-high-2',
-            file: require('../assets/audio/warm/holizna-witchcraft.mp3'),
-            title: 'WitchCraft',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'warm-high-3',
-            file: require('../assets/audio/warm/metre-path.mp3'),
-            title: 'Path',
-            artist: 'Metre',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'warm-high-4',
-            file: require('../assets/audio/warm/playhouse-free.mp3'),
-            title: 'FREE',
-            artist: 'Play House',
-            license: 'CC0 1.0 Universal',
-        },
-    ],
-    'cool-low': [
-        {
-            id: 'cool-low-1',
-            file: require('../assets/audio/cool/cool-low.mp3'),
-            title: 'NPC Theme',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-low-2',
-            file: require('../assets/audio/cool/holizna-tokyo-sunset.mp3'),
-            title: 'Tokyo Sunset',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-    ],
-    'cool-medium': [
-        {
-            id: 'cool-medium-1',
-            file: require('../assets/audio/cool/cool-medium.mp3'),
-        },
-        {
-            id: 'cool-medium-2',
-            file: require('../assets/audio/cool/holizna-2-hour-delay.mp3'),
-            title: '2 Hour Delay',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-medium-3',
-            file: require('../assets/audio/cool/holizna-one-night-in-france.mp3'),
-            title: 'One Night In France',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-medium-4',
-            file: require('../assets/audio/cool/holizna-waiting-around.mp3'),
-            title: 'Waiting Around',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-    ],
-    'cool-high': [
-        {
-            id: 'cool-high-1',
-            file: require('../assets/audio/cool/cool-high.mp3'),
-        },
-        {
-            id: 'cool-high-2',
-            file: require('../assets/audio/cool/holizna-confusion.mp3'),
-            title: 'Confusion',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-high-3',
-            file: require('../assets/audio/cool/holizna-when-time-called-me-darling.mp3'),
-            title: 'When Time Called Me Darling',
-            artist: 'HoliznaCC0',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-high-4',
-            file: require('../assets/audio/cool/metre-conduit.mp3'),
-            title: 'Conduit',
-            artist: 'Metre',
-            license: 'CC0 1.0 Universal',
-        },
-        {
-            id: 'cool-high-5',
-            file: require('../assets/audio/cool/metre-slipshod.mp3'),
-            title: 'Slipshod',
-            artist: 'Metre',
-            license: 'CC0 1.0 Universal',
-        },
-    ],
-}
+// Catalog state — rebuilt whenever an overlay is added or removed
+const baseManifest: TrackManifest = parseManifest(baseManifestData);
+let overlayManifests: TrackManifest[] = [];
+let licensePolicy: LicensePolicy = DEFAULT_LICENSE_POLICY;
+let REGISTRY: Record<string, TrackEntry[]> = {};
+// Entries the license policy kept out, reported by validate()
+let LICENSE_ISSUES: RegistryIssue[] = [];
+let TRACKS_BY_ID: Record<string, TrackEntry> = {};
+let CATEGORY_BY_ID: Record<string, string> = {};
+
+const rebuildRegistry = () => {
+    const resolved = resolveManifestTracks(mergeManifests(baseManifest, overlayManifests), resolveAsset);
+    ({ registry: REGISTRY, issues: LICENSE_ISSUES } = applyLicensePolicy(resolved, licensePolicy));
+    TRACKS_BY_ID = {};
+    CATEGORY_BY_ID = {};
+    for (const [category, tracks] of Object.entries(REGISTRY)) {
+        for (const track of tracks) {
+            TRACKS_BY_ID[track.id] = track;
+            CATEGORY_BY_ID[track.id] = category;
+        }
+    }
+};
+
+rebuildRegistry();
 
 export class TrackRegistry {
-    private static lastPlayedPerCategory: Record<string, string> = {};
+    private static store: SelectionStore = new SelectionStore();
+    // Weighted so likes and skips shape the default picks; it never repeats back to back either
+    private static strategy: SelectionStrategy = createSelectionStrategy('weighted');
+    private static random: () => number = Math.random;
+    // Tracks that failed to load this session — never selected, unlike bans
+    private static quarantined = new Set<string>();
 
     static getTracksForCategory(category: string): TrackEntry[] {
         return REGISTRY[category] ?? [];
     }
 
     static selectTrack(category: string): TrackEntry | null {
-        const tracks = REGISTRY[category];
+        const tracks = (REGISTRY[category] ?? []).filter(track => !TrackRegistry.quarantined.has(track.id));
 
-        if (!tracks || tracks.length === 0) {
+        if (tracks.length === 0) {
             console.warn(`No tracks found for category: ${category}`);
             return null;
         }
 
-        if (tracks.length === 1) {
-            TrackRegistry.lastPlayedPerCategory[category] = tracks[0].id;
-            return tracks[0];
+        // Banned tracks sit out — unless that would leave the session silent
+        const allowed = tracks.filter(track => !TrackRegistry.store.getPreference(track.id).banned);
+        if (allowed.length === 0) {
+            console.warn(`Every track in ${category} is banned, ignoring bans`);
+        }
+
+        const selected = TrackRegistry.strategy.select({
+            category,
+            tracks: allowed.length > 0 ? allowed : tracks,
+            store: TrackRegistry.store,
+            random: TrackRegistry.random,
+        });
+
+        if (selected) {
+            console.log(`Selected track: ${selected.id} from category: ${category} (${TrackRegistry.strategy.mode})`);
+        }
+        return selected;
+    }
+
+    // Continuous matching — considers every track of the energy state and picks
+    // one whose energy sits closest to the exact intensity. The selection
+    // strategy chooses among the close matches, so bags, history and
+    // weighting work the same as in bucket mode.
+    static selectTrackForIntensity(energyState: 'warm' | 'cool', intensity: number): TrackEntry | null {
+        const candidates: EnergyCandidate[] = [];
+        for (const category of TrackRegistry.getCategoriesForEnergyState(energyState)) {
+            for (const track of REGISTRY[category] ?? []) {
+                if (!TrackRegistry.quarantined.has(track.id)) candidates.push({ track, category });
+            }
         }
 
-        const lastPlayed = TrackRegistry.lastPlayedPerCategory[category];
-        const available = tracks.filter(track => track.id !== lastPlayed);
-        const selected = available[Math.floor(Math.random() * available.length)];
-        TrackRegistry.lastPlayedPerCategory[category] = selected.id;
+        const allowed = candidates.filter(candidate => !TrackRegistry.store.getPreference(candidate.track.id).banned);
+        // The window can span categories, so avoid whatever played last anywhere
+        const lastPlayed = TrackRegistry.store.getHistory()[0]?.trackId;
+        const matches = matchByEnergy(
+            allowed.length > 0 ? allowed : candidates,
+            intensity,
+            lastPlayed ? [lastPlayed] : []
+        );
+
+        // Bags and per-category history are keyed by the band the intensity falls in
+        const selected = TrackRegistry.strategy.select({
+            category: `${energyState}-${getIntensityLevel(intensity)}`,
+            tracks: matches.map(match => match.track),
+            store: TrackRegistry.store,
+            random: TrackRegistry.random,
+        });
 
-        console.log(`Selected track: ${selected.id} from category: ${category}`);
+        if (selected) {
+            console.log(`Selected track: ${selected.id} for ${energyState} intensity ${intensity.toFixed(2)} (${TrackRegistry.strategy.mode})`);
+        } else {
+            console.warn(`No tracks found for energy state: ${energyState}`);
+        }
         return selected;
     }
 
+    // Restores history, preferences and shuffle bags from the last launch
+    static async loadSelectionState(): Promise<void> {
+        await TrackRegistry.store.load();
+    }
+
+    static setSelectionMode(mode: SelectionMode): void {
+        TrackRegistry.strategy = createSelectionStrategy(mode);
+    }
+
+    // For strategies beyond the built-in modes
+    static setSelectionStrategy(strategy: SelectionStrategy): void {
+        TrackRegistry.strategy = strategy;
+    }
+
+    static getSelectionMode(): string {
+        return TrackRegistry.strategy.mode;
+    }
+
+    // A seed makes every pick reproducible; null goes back to Math.random
+    static setRandomSeed(seed: number | null): void {
+        TrackRegistry.random = seed === null ? Math.random : createSeededRandom(seed);
+    }
+
+    // Swaps where selection state lives — e.g. an in-memory store for tests
+    static setSelectionStore(store: SelectionStore): void {
+        TrackRegistry.store = store;
+    }
+
+    // Called when a track actually starts, so history reflects what was heard
+    // rather than everything that was picked for preloading
+    static recordPlay(trackId: string): void {
+        const category = CATEGORY_BY_ID[trackId];
+        if (!category) return;
+        TrackRegistry.store.recordPlay(trackId, category);
+    }
+
+    static recordSkip(trackId: string): void {
+        TrackRegistry.store.recordSkip(trackId);
+    }
+
+    static setFavorite(trackId: string, favorite: boolean): void {
+        TrackRegistry.store.setFavorite(trackId, favorite);
+    }
+
+    static setBanned(trackId: string, banned: boolean): void {
+        TrackRegistry.store.setBanned(trackId, banned);
+    }
+
+    static quarantine(trackId: string): void {
+        TrackRegistry.quarantined.add(trackId);
+    }
+
+    static isQuarantined(trackId: string): boolean {
+        return TrackRegistry.quarantined.has(trackId);
+    }
+
+    // Called when a new session starts — the file may load fine next time
+    static clearQuarantine(): void {
+        TrackRegistry.quarantined.clear();
+    }
+
+    static getPreference(trackId: string): TrackPreference {
+        return TrackRegistry.store.getPreference(trackId);
+    }
+
+    static getCategoryForTrack(trackId: string): string | null {
+        return CATEGORY_BY_ID[trackId] ?? null;
+    }
+
+    static getCategories(): string[] {
+        return Object.keys(REGISTRY);
+    }
+
+    static getTrackById(trackId: string): TrackEntry | null {
+        return TRACKS_BY_ID[trackId] ?? null;
+    }
+
+    // Merges a pack manifest over the base catalog. Re-applying the same
+    // manifest ID replaces the earlier version. Throws ManifestError on bad input.
+    static applyOverlay(data: unknown): RegistryIssue[] {
+        const overlay = parseManifest(data);
+        overlayManifests = [...overlayManifests.filter(existing => existing.id !== overlay.id), overlay];
+        rebuildRegistry();
+        console.log(`Applied track overlay: ${overlay.id}`);
+        return TrackRegistry.validate();
+    }
+
+    static removeOverlay(manifestId: string): void {
+        overlayManifests = overlayManifests.filter(existing => existing.id !== manifestId);
+        rebuildRegistry();
+        console.log(`Removed track overlay: ${manifestId}`);
+    }
+
+    // Rebuilds the catalog under the new policy. Returns the issues it finds, like applyOverlay.
+    static setLicensePolicy(policy: Partial<LicensePolicy>): RegistryIssue[] {
+        licensePolicy = { ...licensePolicy, ...policy };
+        rebuildRegistry();
+        return TrackRegistry.validate();
+    }
+
+    static getLicensePolicy(): LicensePolicy {
+        return licensePolicy;
+    }
+
+    // Everything in the catalog, grouped by artist — the credits screen's source
+    static getCredits(): ArtistCredits[] {
+        return buildCredits(REGISTRY);
+    }
+
+    static getOverlayIds(): string[] {
+        return overlayManifests.map(overlay => overlay.id);
+    }
+
+    // Checks every entry and logs what it finds. Errors mean a track
+    // can't be trusted to play; warnings are gaps in metadata.
+    static validate(): RegistryIssue[] {
+        const issues = [...LICENSE_ISSUES, ...validateRegistry(REGISTRY)];
+        for (const issue of issues) {
+            const log = issue.severity === 'error' ? console.error : console.warn;
+            log(`TrackRegistry ${issue.severity}: ${issue.message}`);
+        }
+        return issues;
+    }
+
     static getCategoriesForEnergyState(energyState: 'warm' | 'cool'): string[] {
         return [`${energyState}-low`, `${energyState}-medium`, `${energyState}-high`];
     }
@@ -0,0 +1,127 @@
+// TrackRegistryValidator.ts
+// Sanity checks for the track catalog, run once at startup.
+// Pure — takes any registry shape, so a broken catalog can be checked in isolation.
+
+import type { TrackEntry } from './TrackRegistry';
+
+export type RegistryIssueSeverity = 'error' | 'warning';
+
+export interface RegistryIssue {
+    severity: RegistryIssueSeverity;
+    category: string;
+    trackId?: string;
+    message: string;
+}
+
+// Every energy state needs all three intensity bands to be playable
+export const EXPECTED_CATEGORIES = [
+    'warm-low', 'warm-medium', 'warm-high',
+    'cool-low', 'cool-medium', 'cool-high',
+];
+
+// Which licenses may ship. Anything else is left out of the catalog
+// entirely, so a file we can't redistribute never reaches a listener.
+export interface LicensePolicy {
+    allowed: string[];
+    // A track with no license field is one nobody has checked. The original
+    // placeholder recordings are in that state — they stay in the manifest
+    // but out of the catalog until a verified license is added.
+    allowMissing: boolean;
+}
+
+export const DEFAULT_LICENSE_POLICY: LicensePolicy = {
+    // Every licensed bundled track is CC0; widen this when a pack needs another license
+    allowed: ['CC0 1.0 Universal'],
+    allowMissing: false,
+};
+
+const BPM_RANGE = { min: 40, max: 220 };
+const GAIN_DB_RANGE = { min: -24, max: 12 };
+const KEY_PATTERN = /^[A-G](#|b)? (major|minor)$/;
+
+const isOutOfRange = (value: number | undefined, min: number, max: number) =>
+    value !== undefined && (!Number.isFinite(value) || value < min || value > max);
+
+// Null when the policy lets the track ship, otherwise why it doesn't
+export const checkLicense = (track: TrackEntry, policy: LicensePolicy): string | null => {
+    const license = track.license?.trim();
+    if (!license) return policy.allowMissing ? null : 'no license';
+    return policy.allowed.includes(license) ? null : `license "${license}" is not on the allow-list`;
+};
+
+// Splits a registry into what the policy lets ship and an error for each entry it rejects
+export const applyLicensePolicy = (
+    registry: Record<string, TrackEntry[]>,
+    policy: LicensePolicy
+): { registry: Record<string, TrackEntry[]>; issues: RegistryIssue[] } => {
+    const allowed: Record<string, TrackEntry[]> = {};
+    const issues: RegistryIssue[] = [];
+
+    for (const [category, tracks] of Object.entries(registry)) {
+        allowed[category] = tracks.filter(track => {
+            const problem = checkLicense(track, policy);
+            if (problem === null) return true;
+            issues.push({ severity: 'error', category, trackId: track.id, message: `${track.id}: ${problem}, left out of the catalog` });
+            return false;
+        });
+    }
+
+    return { registry: allowed, issues };
+};
+
+export const validateRegistry = (registry: Record<string, TrackEntry[]>): RegistryIssue[] => {
+    const issues: RegistryIssue[] = [];
+    const seenIds: Record<string, string> = {};
+
+    for (const category of EXPECTED_CATEGORIES) {
+        if (!(category in registry)) {
+            issues.push({ severity: 'error', category, message: `Missing category: ${category}` });
+        }
+    }
+
+    for (const [category, tracks] of Object.entries(registry)) {
+        if (tracks.length === 0) {
+            issues.push({ severity: 'error', category, message: `Category ${category} has no tracks` });
+        }
+
+        for (const track of tracks) {
+            const report = (severity: RegistryIssueSeverity, message: string) => {
+                issues.push({ severity, category, trackId: track.id, message: `${track.id}: ${message}` });
+            };
+
+            if (seenIds[track.id]) {
+                report('error', `duplicate ID (also in ${seenIds[track.id]})`);
+            } else {
+                seenIds[track.id] = category;
+            }
+
+            if (track.file === undefined || track.file === null) {
+                report('error', 'no audio file');
+            }
+            if (!track.license) {
+                report('warning', 'missing license');
+            }
+
+            if (isOutOfRange(track.bpm, BPM_RANGE.min, BPM_RANGE.max)) {
+                report('error', `bpm ${track.bpm} outside ${BPM_RANGE.min}–${BPM_RANGE.max}`);
+            }
+            if (track.durationSeconds !== undefined && !(track.durationSeconds > 0)) {
+                report('error', `duration ${track.durationSeconds}s must be positive`);
+            }
+            if (isOutOfRange(track.energy, 0, 1)) {
+                report('error', `energy ${track.energy} outside 0–1`);
+            }
+            if (isOutOfRange(track.gainDb, GAIN_DB_RANGE.min, GAIN_DB_RANGE.max)) {
+                report('error', `gain ${track.gainDb}dB outside ${GAIN_DB_RANGE.min}–${GAIN_DB_RANGE.max}dB`);
+            }
+            if (track.key !== undefined && !KEY_PATTERN.test(track.key)) {
+                report('error', `key "${track.key}" should look like "A minor" or "F# major"`);
+            }
+            if (track.moods?.some(mood => mood.trim().length === 0)) {
+                report('error', 'empty mood tag');
+            }
+        }
+    }
+
+    return issues;
+};
@@ -0,0 +1,40 @@
+// WavEncoder.ts
+// 16-bit PCM WAV encoding. Pure — returns the file's bytes for the caller to write.
+
+const HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+
+// samples are interleaved when channels > 1
+export const encodeWav = (samples: Int16Array, sampleRate: number, channels: number): Uint8Array => {
+    const dataBytes = samples.length * BYTES_PER_SAMPLE;
+    const bytes = new Uint8Array(HEADER_BYTES + dataBytes);
+    const view = new DataView(bytes.buffer);
+
+    const writeAscii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    // RIFF container
+    writeAscii(0, 'RIFF');
+    view.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+    writeAscii(8, 'WAVE');
+
+    // Format chunk — uncompressed PCM
+    writeAscii(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * BYTES_PER_SAMPLE, true);
+    view.setUint16(32, channels * BYTES_PER_SAMPLE, true);
+    view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+    // Data chunk — WAV is little-endian whatever the platform
+    writeAscii(36, 'data');
+    view.setUint32(40, dataBytes, true);
+    for (let i = 0; i < samples.length; i++) {
+        view.setInt16(HEADER_BYTES + i * BYTES_PER_SAMPLE, samples[i], true);
+    }
+
+    return bytes;
+};
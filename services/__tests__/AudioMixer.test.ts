@@ -0,0 +1,75 @@
+import { AudioMixer } from '../AudioMixer';
+import { AmbienceRegistry } from '../AmbienceRegistry';
+import { getSounds, resetMockAudio } from './support/mockExpoAv';
+
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+jest.mock('expo-file-system', () => require('./support/mockFileSystem'));
+jest.mock('../AssetResolver', () => ({ resolveAsset: (path: string) => path }));
+// A real bed is minutes of audio — a few samples are enough to load
+jest.mock('../NoiseGenerator', () => ({
+    ...jest.requireActual('../NoiseGenerator'),
+    generateNoise: () => ({ samples: new Int16Array(4), sampleRate: 44100, channels: 2 }),
+}));
+
+const rain = AmbienceRegistry.getById('rain')!;
+const ocean = AmbienceRegistry.getById('ocean')!;
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockAudio();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('AudioMixer ambience channel', () => {
+    it('fades a looping bed in at the channel level under the master volume', async () => {
+        const mixer = new AudioMixer();
+        await mixer.setMasterVolume(0.5);
+        await mixer.setChannelVolume('ambience', 0.4);
+
+        mixer.updateAmbience(rain, true);
+        await jest.advanceTimersByTimeAsync(5000);
+
+        const [sound] = getSounds();
+        expect(sound.isPlaying()).toBe(true);
+        expect(sound.getVolume()).toBeCloseTo(0.2);
+
+        await mixer.setMasterVolume(1);
+        expect(sound.getVolume()).toBeCloseTo(0.4);
+    });
+
+    it('fades out the old bed before starting a new one', async () => {
+        const mixer = new AudioMixer();
+        mixer.updateAmbience(rain, true);
+        await jest.advanceTimersByTimeAsync(5000);
+
+        mixer.updateAmbience(ocean, true);
+        await jest.advanceTimersByTimeAsync(8000);
+
+        const [first, second] = getSounds();
+        expect(first.isLoaded()).toBe(false);
+        expect(second.isPlaying()).toBe(true);
+        expect(second.source).not.toEqual(first.source);
+    });
+
+    it('pauses with the music and unloads on cleanup', async () => {
+        const mixer = new AudioMixer();
+        mixer.updateAmbience(rain, true);
+        await jest.advanceTimersByTimeAsync(5000);
+
+        mixer.updateAmbience(rain, false);
+        await jest.advanceTimersByTimeAsync(3000);
+        const [sound] = getSounds();
+        expect(sound.isPlaying()).toBe(false);
+        expect(sound.isLoaded()).toBe(true);
+
+        await mixer.cleanup();
+        expect(sound.isLoaded()).toBe(false);
+    });
+});
@@ -0,0 +1,73 @@
+import { EntrainmentLayer } from '../EntrainmentLayer';
+import { getSounds, resetMockAudio } from './support/mockExpoAv';
+
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+jest.mock('expo-file-system', () => require('./support/mockFileSystem'));
+
+const VOLUME = 0.2;
+
+// Loudest tone sounding right now
+const audibleLevel = () => Math.max(0, ...getSounds()
+    .filter(sound => sound.isLoaded() && sound.isPlaying())
+    .map(sound => sound.getVolume()));
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockAudio();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('EntrainmentLayer', () => {
+    it('fades the tone in under playing music', async () => {
+        const layer = new EntrainmentLayer();
+        layer.setSettings({ enabled: true, volume: VOLUME });
+
+        layer.update({ energyType: 'cool', intensity: 0 }, true);
+        await jest.advanceTimersByTimeAsync(2000);
+
+        expect(getSounds()).toHaveLength(1);
+        expect(audibleLevel()).toBeCloseTo(VOLUME);
+    });
+
+    it('blends into a retuned tone without dropping out', async () => {
+        const layer = new EntrainmentLayer();
+        layer.setSettings({ enabled: true, volume: VOLUME });
+        layer.update({ energyType: 'cool', intensity: 0 }, true);
+        await jest.advanceTimersByTimeAsync(2000);
+
+        // One beat step up, as a program ramp makes
+        layer.update({ energyType: 'cool', intensity: 0.0625 }, true);
+        let quietest = Infinity;
+        for (let elapsed = 0; elapsed < 2000; elapsed += 50) {
+            await jest.advanceTimersByTimeAsync(50);
+            quietest = Math.min(quietest, audibleLevel());
+        }
+
+        // Equal-power — neither side drops below ~70% at the crossover
+        expect(quietest).toBeGreaterThan(VOLUME * 0.65);
+        const [first, second] = getSounds();
+        expect(first.isLoaded()).toBe(false);
+        expect(second.isPlaying()).toBe(true);
+        expect(second.getVolume()).toBeCloseTo(VOLUME);
+    });
+
+    it('fades out and pauses when the music stops', async () => {
+        const layer = new EntrainmentLayer();
+        layer.setSettings({ enabled: true, volume: VOLUME });
+        layer.update({ energyType: 'warm', intensity: 0.5 }, true);
+        await jest.advanceTimersByTimeAsync(2000);
+
+        layer.update({ energyType: 'warm', intensity: 0.5 }, false);
+        await jest.advanceTimersByTimeAsync(2000);
+
+        expect(audibleLevel()).toBe(0);
+        expect(getSounds()[0].isLoaded()).toBe(true);
+    });
+});
@@ -0,0 +1,110 @@
+import {
+    IntensityProgram,
+    ProgramError,
+    evaluateProgram,
+    getProgramDurationMillis,
+    validateProgram,
+} from '../IntensityProgram';
+import { BUILT_IN_PROGRAMS, ProgramLibrary } from '../ProgramLibrary';
+import { MemoryStorage } from './support/memoryStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const STORAGE_KEY = 'entheosnow.programs.v1';
+
+const program: IntensityProgram = {
+    id: 'test',
+    name: 'Test',
+    keyframes: [
+        { energyState: 'cool', intensity: 0.2, durationMillis: 1000, ramp: false },
+        { energyState: 'warm', intensity: 0.8, durationMillis: 2000, ramp: true },
+        { energyState: 'warm', intensity: 0.5, durationMillis: 1000, ramp: false },
+    ],
+};
+
+const withKeyframe = (changes: object): IntensityProgram => ({
+    ...program,
+    keyframes: [{ ...program.keyframes[0], ...changes }],
+});
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('evaluateProgram', () => {
+    it('adds up the keyframe durations', () => {
+        expect(getProgramDurationMillis(program)).toBe(4000);
+    });
+
+    it('holds a keyframe that does not ramp', () => {
+        expect(evaluateProgram(program, 0)).toEqual({ energyState: 'cool', intensity: 0.2, keyframeIndex: 0, finished: false });
+        expect(evaluateProgram(program, 999).intensity).toBe(0.2);
+    });
+
+    it('ramps from the previous keyframe across the duration', () => {
+        expect(evaluateProgram(program, 1000).intensity).toBeCloseTo(0.2);
+        expect(evaluateProgram(program, 2000)).toEqual({ energyState: 'warm', intensity: expect.closeTo(0.5), keyframeIndex: 1, finished: false });
+        expect(evaluateProgram(program, 2999).intensity).toBeCloseTo(0.8, 2);
+    });
+
+    it('ramps up from silence when the first keyframe ramps', () => {
+        const rampIn = withKeyframe({ ramp: true, intensity: 0.6 });
+        expect(evaluateProgram(rampIn, 500).intensity).toBeCloseTo(0.3);
+    });
+
+    it('rests on the final keyframe once finished', () => {
+        expect(evaluateProgram(program, 3500).finished).toBe(false);
+        expect(evaluateProgram(program, 4000)).toEqual({ energyState: 'warm', intensity: 0.5, keyframeIndex: 2, finished: true });
+        expect(evaluateProgram(program, 60000).finished).toBe(true);
+    });
+});
+
+describe('validateProgram', () => {
+    it('accepts the built-in programs', () => {
+        for (const builtIn of BUILT_IN_PROGRAMS) {
+            expect(() => validateProgram(builtIn)).not.toThrow();
+        }
+    });
+
+    it.each([
+        ['no name', { ...program, name: '  ' }, /needs a name/],
+        ['no keyframes', { ...program, keyframes: [] }, /no keyframes/],
+        ['an unknown energy state', withKeyframe({ energyState: 'hot' }), /warm or cool/],
+        ['an intensity above 1', withKeyframe({ intensity: 1.2 }), /between 0 and 1/],
+        ['a missing intensity', withKeyframe({ intensity: NaN }), /between 0 and 1/],
+        ['a zero duration', withKeyframe({ durationMillis: 0 }), /needs a duration/],
+    ])('rejects %s', (_, invalid, message) => {
+        expect(() => validateProgram(invalid as IntensityProgram)).toThrow(ProgramError);
+        expect(() => validateProgram(invalid as IntensityProgram)).toThrow(message);
+    });
+});
+
+describe('ProgramLibrary', () => {
+    it('keeps saved programs across instances', async () => {
+        const storage = new MemoryStorage();
+        await new ProgramLibrary(storage).save(program);
+
+        const restored = new ProgramLibrary(storage);
+        await restored.load();
+        expect(restored.getProgram('test')).toEqual(program);
+        expect(restored.getPrograms()).toHaveLength(BUILT_IN_PROGRAMS.length + 1);
+    });
+
+    it('refuses to overwrite a built-in', async () => {
+        const library = new ProgramLibrary(new MemoryStorage());
+        await expect(library.save({ ...program, id: BUILT_IN_PROGRAMS[0].id })).rejects.toThrow(ProgramError);
+    });
+
+    it('skips a broken saved program and loads the rest', async () => {
+        const storage = new MemoryStorage({
+            [STORAGE_KEY]: JSON.stringify({ version: 1, programs: [program, { ...program, id: 'broken', keyframes: [] }] }),
+        });
+        const library = new ProgramLibrary(storage);
+        await library.load();
+
+        expect(library.getProgram('test')).not.toBeNull();
+        expect(library.getProgram('broken')).toBeNull();
+    });
+});
@@ -0,0 +1,52 @@
+import { buildCredits } from '../Credits';
+import { TrackEntry } from '../TrackRegistry';
+import { DEFAULT_LICENSE_POLICY, applyLicensePolicy, checkLicense } from '../TrackRegistryValidator';
+
+const track = (id: string, license?: string, artist?: string): TrackEntry => ({ id, file: null, title: id, license, artist });
+
+const registry: Record<string, TrackEntry[]> = {
+    'warm-low': [track('unlicensed')],
+    'warm-medium': [track('cc0', 'CC0 1.0 Universal', 'Metre'), track('padded', '  CC0 1.0 Universal ', 'Holizna')],
+    'cool-high': [track('cc-by', 'CC BY 4.0', 'Play House'), track('all-rights', 'All rights reserved')],
+};
+
+describe('license policy', () => {
+    it('ships only tracks under an allowed license by default', () => {
+        expect(checkLicense(track('a', 'CC0 1.0 Universal'), DEFAULT_LICENSE_POLICY)).toBeNull();
+        expect(checkLicense(track('a'), DEFAULT_LICENSE_POLICY)).toBe('no license');
+        expect(checkLicense(track('a', 'CC BY 4.0'), DEFAULT_LICENSE_POLICY)).toMatch(/not on the allow-list/);
+    });
+
+    it('leaves rejected tracks out and reports each as an error', () => {
+        const { registry: allowed, issues } = applyLicensePolicy(registry, DEFAULT_LICENSE_POLICY);
+
+        expect(allowed).toEqual({
+            'warm-low': [],
+            'warm-medium': registry['warm-medium'],
+            'cool-high': [],
+        });
+        expect(issues.map(issue => [issue.severity, issue.category, issue.trackId])).toEqual([
+            ['error', 'warm-low', 'unlicensed'],
+            ['error', 'cool-high', 'cc-by'],
+            ['error', 'cool-high', 'all-rights'],
+        ]);
+    });
+
+    it('follows a widened policy', () => {
+        const { registry: allowed, issues } = applyLicensePolicy(registry, {
+            allowed: ['CC0 1.0 Universal', 'CC BY 4.0'],
+            allowMissing: true,
+        });
+
+        expect(allowed['warm-low']).toHaveLength(1);
+        expect(allowed['cool-high'].map(entry => entry.id)).toEqual(['cc-by']);
+        expect(issues.map(issue => issue.trackId)).toEqual(['all-rights']);
+    });
+
+    it('credits only what ships, grouped by artist', () => {
+        const credits = buildCredits(applyLicensePolicy(registry, DEFAULT_LICENSE_POLICY).registry);
+
+        expect(credits.map(group => group.artist)).toEqual(['Holizna', 'Metre']);
+        expect(credits[1].tracks).toEqual([{ id: 'cc0', title: 'cc0', license: 'CC0 1.0 Universal', category: 'warm-medium' }]);
+    });
+});
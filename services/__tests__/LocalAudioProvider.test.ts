@@ -0,0 +1,68 @@
+import { LocalAudioProvider } from '../LocalAudioProvider';
+import { TrackEntry } from '../TrackRegistry';
+import { getSounds, resetMockAudio } from './support/mockExpoAv';
+
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+
+const FIRST: TrackEntry = { id: 'first', file: { uri: 'file:///first.mp3' } };
+const SECOND: TrackEntry = { id: 'second', file: { uri: 'file:///second.mp3' } };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    resetMockAudio();
+});
+
+describe('LocalAudioProvider', () => {
+    it('pausing mid-crossfade silences the outgoing track as well', async () => {
+        const provider = new LocalAudioProvider();
+        provider.setVolumeEnvelope({ fadeInMs: 0, fadeOutMs: 0 });
+        await provider.loadTrack(FIRST);
+        await provider.play();
+
+        const crossfade = provider.crossfadeTo(SECOND, { durationMs: 2000, curve: 'equal-power' });
+        await wait(120);
+        await provider.pause();
+
+        const [outgoing, incoming] = getSounds();
+        expect(outgoing.isPlaying()).toBe(false);
+        expect(outgoing.isLoaded()).toBe(false);
+        expect(incoming.isPlaying()).toBe(false);
+        expect(provider.getCurrentTrack()?.id).toBe('second');
+
+        // The abandoned ramp leaves the incoming sound alone once paused
+        const volume = incoming.getVolume();
+        await wait(150);
+        expect(incoming.getVolume()).toBe(volume);
+
+        await crossfade;
+        await provider.cleanup();
+    });
+
+    it('resumes after an interruption at the level it was cut off at', async () => {
+        const provider = new LocalAudioProvider();
+        provider.setVolumeEnvelope({ fadeInMs: 0, fadeOutMs: 0 });
+        await provider.loadTrack(FIRST);
+        await provider.play();
+        await wait(80);
+
+        const [sound] = getSounds();
+        const level = sound.getVolume();
+        expect(level).toBeGreaterThan(0);
+
+        sound.interrupt();
+        await wait(0);
+        expect(provider.isPlaying()).toBe(false);
+
+        provider.setVolumeEnvelope({ fadeInMs: 2000, fadeOutMs: 0 });
+        await provider.play();
+        expect(sound.isPlaying()).toBe(true);
+        expect(sound.getVolume()).toBe(level);
+
+        await provider.cleanup();
+    });
+});
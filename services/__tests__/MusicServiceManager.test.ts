@@ -0,0 +1,39 @@
+import { FakeMusicProvider } from '../FakeMusicProvider';
+import { MusicServiceManager } from '../MusicServiceManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+jest.mock('expo-file-system', () => require('./support/mockFileSystem'));
+jest.mock('expo-crypto', () => ({}));
+jest.mock('expo-web-browser', () => ({}));
+jest.mock('../AssetResolver', () => ({ resolveAsset: (path: string) => path }));
+
+const BUDGET = { maxEntries: 2, maxBytes: 1024 * 1024 };
+
+// The fake doesn't preload into a cache — this one just records its budget
+const createBudgetedProvider = () => Object.assign(new FakeMusicProvider(), { setPreloadBudget: jest.fn() });
+
+const manager = MusicServiceManager.getInstance();
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    await manager.cleanup();
+});
+
+describe('MusicServiceManager', () => {
+    it('carries the preload budget over to every provider that becomes active', async () => {
+        manager.setPreloadBudget(BUDGET);
+
+        const first = createBudgetedProvider();
+        await manager.switchProvider(first);
+        expect(first.setPreloadBudget).toHaveBeenCalledWith(BUDGET);
+
+        const second = createBudgetedProvider();
+        await manager.switchProvider(second);
+        expect(second.setPreloadBudget).toHaveBeenCalledWith(BUDGET);
+    });
+});
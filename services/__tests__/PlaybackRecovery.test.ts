@@ -0,0 +1,103 @@
+import { FakeMusicProvider, FakeMusicProviderOptions } from '../FakeMusicProvider';
+import { MusicServiceManager } from '../MusicServiceManager';
+import { TrackEntry, TrackRegistry } from '../TrackRegistry';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+jest.mock('expo-file-system', () => require('./support/mockFileSystem'));
+jest.mock('expo-crypto', () => ({}));
+jest.mock('expo-web-browser', () => ({}));
+// Most bundled audio isn't checked in — the manifest paths stand in for the files
+jest.mock('../AssetResolver', () => ({ resolveAsset: (path: string) => path }));
+
+const trackIds = (category: string) => TrackRegistry.getTracksForCategory(category).map(track => track.id);
+
+const manager = MusicServiceManager.getInstance();
+
+// Picks tracks in a fixed order, like a provider with its own catalog; the last one repeats
+class ScriptedProvider extends FakeMusicProvider {
+    constructor(private picks: string[], options: FakeMusicProviderOptions) {
+        super(options);
+    }
+
+    async selectTrack(_category: string): Promise<TrackEntry | null> {
+        const id = this.picks.length > 1 ? this.picks.shift()! : this.picks[0];
+        return TrackRegistry.getTrackById(id);
+    }
+}
+
+const startWith = async (failingTrackIds: string[]) => {
+    const provider = new FakeMusicProvider({ failingTrackIds });
+    const loadTrack = jest.spyOn(provider, 'loadTrack');
+    await manager.switchProvider(provider);
+    return { provider, loadTrack };
+};
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    manager.setMatchingMode('bucket');
+    TrackRegistry.setRandomSeed(1);
+});
+
+afterEach(async () => {
+    await manager.cleanup();
+});
+
+describe('playback recovery', () => {
+    it('retries a failing track once before moving to another in its category', async () => {
+        const [failing, survivor] = trackIds('warm-high');
+        const provider = new ScriptedProvider([failing, survivor], { failingTrackIds: [failing] });
+        const loadTrack = jest.spyOn(provider, 'loadTrack');
+        await manager.switchProvider(provider);
+        const fallbacks: string[] = [];
+        manager.subscribe('trackFallback', ({ failed, fallback }) => fallbacks.push(`${failed.id} → ${fallback.id}`));
+
+        await manager.beginSession('warm', 0.9);
+
+        expect(loadTrack.mock.calls.map(([track]) => track.id)).toEqual([failing, failing, survivor]);
+        expect(provider.getCurrentTrack()!.id).toBe(survivor);
+        expect(provider.isPlaying()).toBe(true);
+        expect(fallbacks).toEqual([`${failing} → ${survivor}`]);
+        expect(TrackRegistry.isQuarantined(failing)).toBe(true);
+    });
+
+    it('falls back to a neighbouring intensity once a category has nothing playable', async () => {
+        const { provider } = await startWith(trackIds('warm-high'));
+        const fallbacks: string[] = [];
+        manager.subscribe('trackFallback', ({ fallback }) => fallbacks.push(fallback.id));
+
+        await manager.beginSession('warm', 0.9);
+
+        const played = provider.getCurrentTrack()!.id;
+        expect(trackIds('warm-medium')).toContain(played);
+        expect(fallbacks).toEqual([played]);
+        for (const id of trackIds('warm-high')) {
+            expect(TrackRegistry.isQuarantined(id)).toBe(true);
+        }
+    });
+
+    it('reports the failure when nothing nearby will load', async () => {
+        await startWith([...trackIds('warm-high'), ...trackIds('warm-medium'), ...trackIds('warm-low')]);
+        const errors: string[] = [];
+        manager.subscribe('error', ({ context }) => errors.push(context));
+
+        await expect(manager.beginSession('warm', 0.9)).rejects.toThrow(/Fake load failure/);
+        expect(errors).toEqual(['play']);
+    });
+
+    it('gives quarantined tracks another chance next session', async () => {
+        const { provider } = await startWith(trackIds('warm-high'));
+        await manager.beginSession('warm', 0.9);
+        expect(TrackRegistry.isQuarantined(trackIds('warm-high')[0])).toBe(true);
+
+        await manager.stop();
+        await manager.switchProvider(new FakeMusicProvider());
+        await manager.beginSession('warm', 0.9);
+
+        expect(provider.isPlaying()).toBe(false);
+        expect(trackIds('warm-high')).toContain(manager.getCurrentTrack()!.id);
+    });
+});
@@ -0,0 +1,39 @@
+import { PlaybackSettings } from '../PlaybackSettings';
+import { MemoryStorage } from './support/memoryStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const STORAGE_KEY = 'entheosnow.settings.v1';
+
+describe('PlaybackSettings', () => {
+    it('has no master volume until one is set', async () => {
+        const settings = new PlaybackSettings(new MemoryStorage());
+        await settings.load();
+
+        expect(settings.getMasterVolume()).toBeNull();
+    });
+
+    it('remembers the master volume across instances', async () => {
+        const storage = new MemoryStorage();
+        await new PlaybackSettings(storage).setMasterVolume(0.4);
+
+        const restored = new PlaybackSettings(storage);
+        await restored.load();
+        expect(restored.getMasterVolume()).toBe(0.4);
+    });
+
+    it('keeps a volume set while the stored one was loading', async () => {
+        const storage = new MemoryStorage({ [STORAGE_KEY]: JSON.stringify({ version: 1, masterVolume: 0.2 }) });
+        storage.holdReads = true;
+        const settings = new PlaybackSettings(storage);
+
+        const loading = settings.load();
+        const saving = settings.setMasterVolume(0.9);
+        storage.releaseReads();
+        await Promise.all([loading, saving]);
+
+        expect(settings.getMasterVolume()).toBe(0.9);
+        expect(JSON.parse(storage.peek(STORAGE_KEY)!).masterVolume).toBe(0.9);
+    });
+});
@@ -0,0 +1,51 @@
+import { runProviderConformance } from '../ProviderConformance';
+import { FakeMusicProvider } from '../FakeMusicProvider';
+import { LocalAudioProvider } from '../LocalAudioProvider';
+import { TrackEntry } from '../TrackRegistry';
+import { advanceSounds, resetMockAudio } from './support/mockExpoAv';
+
+jest.mock('expo-av', () => require('./support/mockExpoAv'));
+
+const TRACKS: [TrackEntry, TrackEntry] = [
+    { id: 'first', file: { uri: 'file:///first.mp3' } },
+    { id: 'second', file: { uri: 'file:///second.mp3' } },
+];
+const DURATION_MILLIS = 30000;
+
+const expectAllPassed = (results: { name: string; passed: boolean; message?: string }[]) => {
+    const failures = results.filter(result => !result.passed).map(result => `${result.name}: ${result.message}`);
+    expect(failures).toEqual([]);
+    expect(results.length).toBeGreaterThan(0);
+};
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('provider conformance', () => {
+    it('FakeMusicProvider meets the contract', async () => {
+        const results = await runProviderConformance<FakeMusicProvider>({
+            createProvider: () => new FakeMusicProvider({ defaultDurationMillis: DURATION_MILLIS }),
+            tracks: TRACKS,
+            trackDurationMillis: DURATION_MILLIS,
+            advance: async (provider, ms) => provider.advance(ms),
+        });
+        expectAllPassed(results);
+    });
+
+    it('LocalAudioProvider meets the contract over a mocked expo-av', async () => {
+        resetMockAudio({ durationMillis: DURATION_MILLIS });
+        const results = await runProviderConformance<LocalAudioProvider>({
+            createProvider: () => {
+                const provider = new LocalAudioProvider();
+                // Fades run on real timers — keep them to a single step
+                provider.setVolumeEnvelope({ fadeInMs: 0, fadeOutMs: 0 });
+                return provider;
+            },
+            tracks: TRACKS,
+            trackDurationMillis: DURATION_MILLIS,
+            advance: (_provider, ms) => advanceSounds(ms),
+        });
+        expectAllPassed(results);
+    });
+});
@@ -0,0 +1,66 @@
+import { SelectionStore } from '../SelectionStore';
+import { MemoryStorage } from './support/memoryStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const STORAGE_KEY = 'entheosnow.selection.v1';
+
+const storedState = {
+    version: 1,
+    history: [{ trackId: 'old', category: 'warm-low', playedAt: 1 }],
+    preferences: { old: { favorite: true }, shared: { skips: 2 } },
+    bags: { 'warm-low': ['a', 'b'] },
+};
+
+// Lets the queued save run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('SelectionStore', () => {
+    it('restores what was saved', async () => {
+        const store = new SelectionStore(new MemoryStorage({ [STORAGE_KEY]: JSON.stringify(storedState) }));
+        await store.load();
+
+        expect(store.getLastPlayed('warm-low')).toBe('old');
+        expect(store.getPreference('old')).toEqual({ favorite: true });
+        expect(store.getBag('warm-low')).toEqual(['a', 'b']);
+    });
+
+    it('keeps changes made before the load finished', async () => {
+        const storage = new MemoryStorage({ [STORAGE_KEY]: JSON.stringify(storedState) });
+        storage.holdReads = true;
+        const store = new SelectionStore(storage);
+
+        const loading = store.load();
+        store.recordPlay('new', 'warm-low', 2);
+        store.recordSkip('shared');
+        store.setBag('cool-high', ['c']);
+        await flush();
+        storage.releaseReads();
+        await loading;
+        await flush();
+
+        expect(store.getHistory().map(record => record.trackId)).toEqual(['new', 'old']);
+        expect(store.getPreference('old')).toEqual({ favorite: true });
+        expect(store.getPreference('shared')).toEqual({ skips: 1 });
+        expect(store.getBag('warm-low')).toEqual(['a', 'b']);
+        expect(store.getBag('cool-high')).toEqual(['c']);
+
+        // The early save waited for the load rather than overwriting the stored state
+        const saved = JSON.parse(storage.peek(STORAGE_KEY)!);
+        expect(saved.history.map((record: { trackId: string }) => record.trackId)).toEqual(['old', 'new']);
+        expect(saved.preferences.old).toEqual({ favorite: true });
+    });
+
+    it('ignores state with an unknown version', async () => {
+        jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+        const store = new SelectionStore(new MemoryStorage({ [STORAGE_KEY]: JSON.stringify({ ...storedState, version: 2 }) }));
+        await store.load();
+
+        expect(store.getHistory()).toEqual([]);
+    });
+});
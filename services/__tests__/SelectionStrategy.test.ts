@@ -0,0 +1,117 @@
+import { SelectionStore } from '../SelectionStore';
+import {
+    LeastRecentStrategy,
+    NoRepeatStrategy,
+    SelectionContext,
+    ShuffleBagStrategy,
+    WeightedRandomStrategy,
+    createSeededRandom,
+} from '../SelectionStrategy';
+import { TrackEntry } from '../TrackRegistry';
+import { MemoryStorage } from './support/memoryStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const CATEGORY = 'warm-medium';
+const TRACKS: TrackEntry[] = ['a', 'b', 'c', 'd'].map(id => ({ id, file: null }));
+
+const createContext = (seed: number, tracks: TrackEntry[] = TRACKS): SelectionContext => ({
+    category: CATEGORY,
+    tracks,
+    store: new SelectionStore(new MemoryStorage()),
+    random: createSeededRandom(seed),
+});
+
+// Picks as the registry makes them — each one recorded as played
+const draw = (strategy: { select(context: SelectionContext): TrackEntry | null }, context: SelectionContext, count: number) => {
+    const picks: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const track = strategy.select(context)!;
+        context.store.recordPlay(track.id, context.category, i);
+        picks.push(track.id);
+    }
+    return picks;
+};
+
+describe('createSeededRandom', () => {
+    it('repeats its sequence for the same seed', () => {
+        const first = createSeededRandom(42);
+        const second = createSeededRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+        expect(createSeededRandom(43)()).not.toBe(values[0]);
+    });
+});
+
+describe('selection strategies', () => {
+    it('return null with nothing to choose from', () => {
+        for (const strategy of [new NoRepeatStrategy(), new ShuffleBagStrategy(), new LeastRecentStrategy(), new WeightedRandomStrategy()]) {
+            expect(strategy.select(createContext(1, []))).toBeNull();
+        }
+    });
+
+    it('no-repeat never plays the same track twice in a row', () => {
+        const picks = draw(new NoRepeatStrategy(), createContext(1), 50);
+        for (let i = 1; i < picks.length; i++) {
+            expect(picks[i]).not.toBe(picks[i - 1]);
+        }
+    });
+
+    it('makes the same picks for the same seed', () => {
+        expect(draw(new NoRepeatStrategy(), createContext(9), 20))
+            .toEqual(draw(new NoRepeatStrategy(), createContext(9), 20));
+    });
+
+    it('shuffle-bag plays every track once per round without repeating across rounds', () => {
+        const picks = draw(new ShuffleBagStrategy(), createContext(3), TRACKS.length * 5);
+
+        for (let round = 0; round < 5; round++) {
+            const roundPicks = picks.slice(round * TRACKS.length, (round + 1) * TRACKS.length);
+            expect([...roundPicks].sort()).toEqual(['a', 'b', 'c', 'd']);
+        }
+        for (let i = 1; i < picks.length; i++) {
+            expect(picks[i]).not.toBe(picks[i - 1]);
+        }
+    });
+
+    it('shuffle-bag drops tracks that are no longer candidates', () => {
+        const context = createContext(5);
+        context.store.setBag(CATEGORY, ['gone', 'b']);
+
+        expect(new ShuffleBagStrategy().select(context)!.id).toBe('b');
+        expect(context.store.getBag(CATEGORY)).toEqual([]);
+    });
+
+    it('least-recent plays never-played tracks first, then the oldest', () => {
+        const context = createContext(2);
+        context.store.recordPlay('a', CATEGORY, 10);
+        context.store.recordPlay('b', CATEGORY, 20);
+        context.store.recordPlay('c', CATEGORY, 30);
+
+        expect(new LeastRecentStrategy().select(context)!.id).toBe('d');
+        context.store.recordPlay('d', CATEGORY, 40);
+        expect(new LeastRecentStrategy().select(context)!.id).toBe('a');
+    });
+
+    it('weighted favours favorites and backs off skipped tracks', () => {
+        const counts: Record<string, number> = { a: 0, b: 0, c: 0, d: 0 };
+        const strategy = new WeightedRandomStrategy();
+        for (let seed = 0; seed < 400; seed++) {
+            const context = createContext(seed);
+            context.store.setFavorite('a', true);
+            context.store.recordSkip('d');
+            context.store.recordSkip('d');
+            counts[strategy.select(context)!.id]++;
+        }
+
+        // Weights 3 : 1 : 1 : 0.25 — roughly 230, 76, 76, 19 of 400
+        expect(counts.a).toBeGreaterThan(counts.b * 2);
+        expect(counts.a).toBeGreaterThan(counts.c * 2);
+        expect(counts.d).toBeLessThan(counts.b);
+        expect(counts.d).toBeLessThan(counts.c);
+        expect(counts.d).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,94 @@
+import { SessionTimer } from '../SessionTimer';
+
+const MINUTE = 60 * 1000;
+const FADE_OUT_MILLIS = 5000;
+
+const createTimer = (durationMillis: number | null) => {
+    const callbacks = { onWindDown: jest.fn(), onFadeOut: jest.fn() };
+    return { timer: new SessionTimer(durationMillis, FADE_OUT_MILLIS, callbacks), callbacks };
+};
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('SessionTimer', () => {
+    it('winds down 30 seconds before the end and fades out in time to finish on it', () => {
+        const { timer, callbacks } = createTimer(5 * MINUTE);
+        timer.resume();
+
+        jest.advanceTimersByTime(4.5 * MINUTE - 1);
+        expect(callbacks.onWindDown).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(callbacks.onWindDown).toHaveBeenCalledWith(30000);
+
+        jest.advanceTimersByTime(25000 - 1);
+        expect(callbacks.onFadeOut).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(callbacks.onFadeOut).toHaveBeenCalledTimes(1);
+        expect(timer.getRemainingMillis()).toBe(FADE_OUT_MILLIS);
+    });
+
+    it('stops the clock while paused', () => {
+        const { timer, callbacks } = createTimer(MINUTE);
+        timer.resume();
+        jest.advanceTimersByTime(20000);
+
+        timer.pause();
+        jest.advanceTimersByTime(10 * MINUTE);
+        expect(timer.isRunning()).toBe(false);
+        expect(timer.getElapsedMillis()).toBe(20000);
+        expect(callbacks.onWindDown).not.toHaveBeenCalled();
+
+        timer.resume();
+        jest.advanceTimersByTime(10000);
+        expect(callbacks.onWindDown).toHaveBeenCalledWith(30000);
+        expect(timer.getRemainingMillis()).toBe(30000);
+    });
+
+    it('fires each mark only once across pauses', () => {
+        const { timer, callbacks } = createTimer(MINUTE);
+        timer.resume();
+        jest.advanceTimersByTime(40000);
+
+        timer.pause();
+        timer.resume();
+        jest.advanceTimersByTime(MINUTE);
+
+        expect(callbacks.onWindDown).toHaveBeenCalledTimes(1);
+        expect(callbacks.onFadeOut).toHaveBeenCalledTimes(1);
+    });
+
+    it('winds down for at most the second half of a short session', () => {
+        const { timer, callbacks } = createTimer(20000);
+        timer.resume();
+
+        jest.advanceTimersByTime(10000);
+        expect(callbacks.onWindDown).toHaveBeenCalledWith(10000);
+    });
+
+    it('only counts up for an open-ended session', () => {
+        const { timer, callbacks } = createTimer(null);
+        timer.resume();
+        jest.advanceTimersByTime(60 * MINUTE);
+
+        expect(timer.getElapsedMillis()).toBe(60 * MINUTE);
+        expect(timer.getRemainingMillis()).toBeNull();
+        expect(callbacks.onWindDown).not.toHaveBeenCalled();
+        expect(callbacks.onFadeOut).not.toHaveBeenCalled();
+    });
+
+    it('fires nothing after being cancelled', () => {
+        const { timer, callbacks } = createTimer(MINUTE);
+        timer.resume();
+        timer.cancel();
+        jest.advanceTimersByTime(10 * MINUTE);
+
+        expect(callbacks.onWindDown).not.toHaveBeenCalled();
+        expect(callbacks.onFadeOut).not.toHaveBeenCalled();
+    });
+});
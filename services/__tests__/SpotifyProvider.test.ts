@@ -0,0 +1,157 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SpotifyProvider } from '../SpotifyProvider';
+import { TrackPreference } from '../SelectionStore';
+import { createSeededRandom } from '../SelectionStrategy';
+
+jest.mock('expo-crypto', () => ({}));
+jest.mock('expo-web-browser', () => ({}));
+// Preferences are injected below; this keeps the bundled catalog out of the test
+jest.mock('../TrackRegistry', () => ({ TrackRegistry: { getPreference: () => ({}) } }));
+
+const PLAYLIST_ID = 'warm-high-playlist';
+const TRACK_COUNT = 230;
+
+const trackUri = (index: number) => `spotify:track:${index}`;
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    authorization?: string;
+    body: string;
+}
+
+// Just enough of the Web API for the provider: a long playlist served
+// a page at a time, one device, and the playback endpoints
+const startMockSpotify = async () => {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            requests.push({ method: req.method ?? '', url: req.url ?? '', authorization: req.headers.authorization, body });
+            const url = new URL(req.url ?? '/', baseUrl);
+            const json = (status: number, payload: object) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(payload));
+            };
+
+            if (req.method === 'GET' && url.pathname === `/v1/playlists/${PLAYLIST_ID}/tracks`) {
+                const offset = Number(url.searchParams.get('offset') ?? 0);
+                const limit = Number(url.searchParams.get('limit') ?? 100);
+                const items = [];
+                for (let i = offset; i < Math.min(offset + limit, TRACK_COUNT); i++) {
+                    items.push({ track: { uri: trackUri(i), name: `Track ${i}`, duration_ms: 60000 + i, artists: [{ name: 'Artist' }] } });
+                }
+                // Removed tracks come back as null and must be skipped
+                if (offset === 0) items.push({ track: null });
+                const nextOffset = offset + limit;
+                const next = nextOffset < TRACK_COUNT
+                    ? `${baseUrl}/v1/playlists/${PLAYLIST_ID}/tracks?offset=${nextOffset}&limit=${limit}`
+                    : null;
+                return json(200, { items, next });
+            }
+            if (req.method === 'GET' && url.pathname === '/v1/me/player/devices') {
+                return json(200, { devices: [{ id: 'phone', is_active: true }] });
+            }
+            if (req.method === 'PUT' && url.pathname.startsWith('/v1/me/player/')) {
+                res.writeHead(204);
+                return res.end();
+            }
+            json(404, { error: { status: 404, message: 'Not found' } });
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return {
+        apiBaseUrl: `${baseUrl}/v1`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+};
+
+describe('SpotifyProvider', () => {
+    let mock: Awaited<ReturnType<typeof startMockSpotify>>;
+    let preferences: Record<string, TrackPreference>;
+
+    const createProvider = (seed: number = 1) => new SpotifyProvider({
+        clientId: 'client',
+        playlists: { 'warm-high': PLAYLIST_ID },
+        apiBaseUrl: mock.apiBaseUrl,
+        tokens: { accessToken: 'token', refreshToken: null, expiresAt: Date.now() + 3600000 },
+        getPreference: trackId => preferences[trackId] ?? {},
+        random: createSeededRandom(seed),
+    });
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    beforeEach(async () => {
+        mock = await startMockSpotify();
+        preferences = {};
+    });
+
+    afterEach(async () => {
+        await mock.close();
+    });
+
+    it('follows next links through a playlist longer than one page', async () => {
+        const provider = createProvider();
+        const picked = new Set<string>();
+        for (let i = 0; i < 400; i++) {
+            picked.add((await provider.selectTrack('warm-high'))!.id);
+        }
+
+        const pageRequests = mock.requests.filter(request => request.url.includes('/playlists/'));
+        expect(pageRequests).toHaveLength(3);
+        expect(pageRequests.every(request => request.authorization === 'Bearer token')).toBe(true);
+        // Tracks only reachable from the last page still come up
+        expect([...picked].some(id => Number(id.split(':')[2]) >= 200)).toBe(true);
+    });
+
+    it('never selects a banned track while others remain', async () => {
+        for (let i = 1; i < TRACK_COUNT; i++) preferences[trackUri(i)] = { banned: true };
+        const provider = createProvider();
+
+        for (let i = 0; i < 5; i++) {
+            expect((await provider.selectTrack('warm-high'))!.id).toBe(trackUri(0));
+        }
+    });
+
+    it('falls back to banned tracks rather than going silent', async () => {
+        for (let i = 0; i < TRACK_COUNT; i++) preferences[trackUri(i)] = { banned: true };
+        const provider = createProvider();
+
+        expect(await provider.selectTrack('warm-high')).not.toBeNull();
+    });
+
+    it('picks favorites more often than other tracks', async () => {
+        // Two playable tracks, one of them a favorite
+        for (let i = 2; i < TRACK_COUNT; i++) preferences[trackUri(i)] = { banned: true };
+        preferences[trackUri(0)] = { favorite: true };
+
+        // No-repeat alternates two tracks, so compare the opening picks of fresh providers
+        let favoritePicks = 0;
+        for (let seed = 0; seed < 200; seed++) {
+            if ((await createProvider(seed).selectTrack('warm-high'))!.id === trackUri(0)) favoritePicks++;
+        }
+        // 3:1 weighting — about 150 of 200
+        expect(favoritePicks).toBeGreaterThan(120);
+    });
+
+    it('starts playback on the active device', async () => {
+        const provider = createProvider();
+        const track = (await provider.selectTrack('warm-high'))!;
+        await provider.loadTrack(track);
+        await provider.play();
+        await provider.cleanup();
+
+        const play = mock.requests.find(request => request.url.startsWith('/v1/me/player/play'))!;
+        expect(play.method).toBe('PUT');
+        expect(play.url).toContain('device_id=phone');
+        expect(JSON.parse(play.body)).toEqual({ uris: [track.id], position_ms: 0 });
+    });
+});
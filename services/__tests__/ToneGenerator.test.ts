@@ -0,0 +1,79 @@
+import { chooseEntrainmentTone, generateTone, isSameTone } from '../ToneGenerator';
+
+// Upward zero crossings — whole cycles of a pure tone
+const countCycles = (samples: Int16Array, channel: number, channels: number): number => {
+    let cycles = 0;
+    for (let i = channel + channels; i < samples.length; i += channels) {
+        if (samples[i - channels] < 0 && samples[i] >= 0) cycles++;
+    }
+    return cycles;
+};
+
+describe('chooseEntrainmentTone', () => {
+    it('draws cool beats from theta into alpha and warm beats from beta', () => {
+        expect(chooseEntrainmentTone('cool', 0, 'binaural')).toEqual({ mode: 'binaural', carrierHz: 180, beatHz: 4 });
+        expect(chooseEntrainmentTone('cool', 1, 'binaural').beatHz).toBe(12);
+        expect(chooseEntrainmentTone('warm', 0, 'isochronic')).toEqual({ mode: 'isochronic', carrierHz: 240, beatHz: 14 });
+        expect(chooseEntrainmentTone('warm', 1, 'isochronic').beatHz).toBe(26);
+    });
+
+    it('clamps intensity and snaps beats to half-hertz steps', () => {
+        expect(chooseEntrainmentTone('cool', 2, 'binaural').beatHz).toBe(12);
+        expect(chooseEntrainmentTone('cool', -1, 'binaural').beatHz).toBe(4);
+        // 4 + 8 × 0.33 = 6.64
+        expect(chooseEntrainmentTone('cool', 0.33, 'binaural').beatHz).toBe(6.5);
+    });
+});
+
+describe('isSameTone', () => {
+    it('compares by value and treats null as its own tone', () => {
+        const tone = chooseEntrainmentTone('cool', 0.5, 'binaural');
+        expect(isSameTone(tone, { ...tone })).toBe(true);
+        expect(isSameTone(tone, { ...tone, beatHz: tone.beatHz + 0.5 })).toBe(false);
+        expect(isSameTone(tone, { ...tone, mode: 'isochronic' })).toBe(false);
+        expect(isSameTone(null, null)).toBe(true);
+        expect(isSameTone(tone, null)).toBe(false);
+    });
+});
+
+describe('generateTone', () => {
+    const options = { sampleRate: 8000, durationSeconds: 2, amplitude: 0.5 };
+
+    it('puts the carrier either side of the beat in each ear', () => {
+        const pcm = generateTone({ mode: 'binaural', carrierHz: 180, beatHz: 10 }, options);
+
+        expect(pcm.channels).toBe(2);
+        expect(pcm.samples).toHaveLength(8000 * 2 * 2);
+        // 175 Hz left, 185 Hz right, over two seconds
+        expect(countCycles(pcm.samples, 0, 2)).toBeCloseTo(350, -1);
+        expect(countCycles(pcm.samples, 1, 2)).toBeCloseTo(370, -1);
+        expect(Math.max(...pcm.samples)).toBeLessThanOrEqual(Math.round(0.5 * 32767));
+    });
+
+    it('rounds to whole cycles so the loop has no click', () => {
+        const pcm = generateTone({ mode: 'binaural', carrierHz: 180.3, beatHz: 6.5 }, options);
+        const frames = pcm.samples.length / 2;
+        const step = Math.round(0.5 * 32767 * Math.sin(2 * Math.PI * 180 / 8000));
+
+        // The last frame leads back into the first as if the buffer carried on
+        for (const channel of [0, 1]) {
+            expect(pcm.samples[channel]).toBe(0);
+            expect(Math.abs(pcm.samples[(frames - 1) * 2 + channel])).toBeLessThanOrEqual(Math.abs(step) * 1.1);
+        }
+    });
+
+    it('gates an isochronic tone on and off at the beat rate', () => {
+        const pcm = generateTone({ mode: 'isochronic', carrierHz: 240, beatHz: 4 }, options);
+
+        expect(pcm.channels).toBe(1);
+        expect(pcm.samples).toHaveLength(16000);
+        // Each 250 ms period sounds for its first half and is silent for the second
+        const period = 8000 / 4;
+        for (let start = 0; start < pcm.samples.length; start += period) {
+            const silent = pcm.samples.subarray(start + period / 2, start + period);
+            expect(silent.every(sample => sample === 0)).toBe(true);
+            const sounding = pcm.samples.subarray(start + period * 0.1, start + period * 0.4);
+            expect(Math.max(...sounding)).toBeGreaterThan(0.45 * 32767);
+        }
+    });
+});
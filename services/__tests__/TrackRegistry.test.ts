@@ -0,0 +1,64 @@
+import { SelectionStore } from '../SelectionStore';
+import { TrackRegistry } from '../TrackRegistry';
+import { MemoryStorage } from './support/memoryStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+// Most bundled audio isn't checked in — the manifest paths stand in for the files
+jest.mock('../AssetResolver', () => ({ resolveAsset: (path: string) => path }));
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+    TrackRegistry.setRandomSeed(null);
+});
+
+describe('TrackRegistry', () => {
+    it('lets likes shape selection without changing the mode', () => {
+        expect(TrackRegistry.getSelectionMode()).toBe('weighted');
+
+        const counts: Record<string, number> = {};
+        for (let seed = 0; seed < 400; seed++) {
+            TrackRegistry.setSelectionStore(new SelectionStore(new MemoryStorage()));
+            TrackRegistry.setRandomSeed(seed);
+            TrackRegistry.setFavorite('warm-high-1', true);
+
+            const track = TrackRegistry.selectTrack('warm-high')!;
+            counts[track.id] = (counts[track.id] ?? 0) + 1;
+        }
+
+        // Weights 3 : 1 : 1 : 1 — roughly 200 of 400 for the liked track
+        for (const id of ['warm-high-2', 'warm-high-3', 'warm-high-4']) {
+            expect(counts['warm-high-1']).toBeGreaterThan(counts[id] * 2);
+        }
+    });
+
+    it('still never plays the same track twice in a row', () => {
+        TrackRegistry.setSelectionStore(new SelectionStore(new MemoryStorage()));
+        TrackRegistry.setRandomSeed(7);
+        TrackRegistry.setFavorite('warm-high-1', true);
+
+        let previous: string | null = null;
+        for (let i = 0; i < 30; i++) {
+            const track = TrackRegistry.selectTrack('warm-high')!;
+            expect(track.id).not.toBe(previous);
+            TrackRegistry.recordPlay(track.id);
+            previous = track.id;
+        }
+    });
+
+    it('keeps the unlicensed placeholder recordings out of the catalog', () => {
+        const placeholders = ['warm-low-1', 'warm-medium-1', 'cool-medium-1', 'cool-high-1'];
+        const licenseIssues = TrackRegistry.validate().filter(issue => issue.message.includes('no license'));
+
+        expect(licenseIssues.map(issue => issue.trackId)).toEqual(placeholders);
+        for (const id of placeholders) {
+            expect(TrackRegistry.getTrackById(id)).toBeNull();
+        }
+        expect(TrackRegistry.getCredits().flatMap(group => group.tracks).every(credit => credit.license)).toBe(true);
+    });
+});
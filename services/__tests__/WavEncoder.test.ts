@@ -0,0 +1,43 @@
+import { encodeWav } from '../WavEncoder';
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+describe('encodeWav', () => {
+    it('writes a 16-bit PCM header that describes the data', () => {
+        const samples = new Int16Array([0, 1, -1, 32767, -32768, 1234]);
+        const bytes = encodeWav(samples, 22050, 2);
+        const view = new DataView(bytes.buffer);
+
+        expect(bytes).toHaveLength(44 + samples.length * 2);
+        expect(ascii(bytes, 0, 4)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+        expect(ascii(bytes, 8, 4)).toBe('WAVE');
+        expect(ascii(bytes, 12, 4)).toBe('fmt ');
+        expect(view.getUint32(16, true)).toBe(16);
+        expect(view.getUint16(20, true)).toBe(1);
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(22050);
+        expect(view.getUint32(28, true)).toBe(22050 * 2 * 2);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(ascii(bytes, 36, 4)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(samples.length * 2);
+    });
+
+    it('stores samples little-endian in order', () => {
+        const samples = new Int16Array([0x0102, -2, 32767, -32768]);
+        const bytes = encodeWav(samples, 8000, 1);
+
+        expect([...bytes.subarray(44, 46)]).toEqual([0x02, 0x01]);
+        expect([...bytes.subarray(46, 48)]).toEqual([0xfe, 0xff]);
+        const view = new DataView(bytes.buffer, 44);
+        expect([0, 1, 2, 3].map(i => view.getInt16(i * 2, true))).toEqual([...samples]);
+    });
+
+    it('encodes an empty buffer as a header alone', () => {
+        const bytes = encodeWav(new Int16Array(0), 44100, 1);
+        expect(bytes).toHaveLength(44);
+        expect(new DataView(bytes.buffer).getUint32(40, true)).toBe(0);
+    });
+});
@@ -0,0 +1,31 @@
+import { KeyValueStorage } from '../../SelectionStore';
+
+// Map-backed KeyValueStorage; reads can be held back to simulate a slow disk
+export class MemoryStorage implements KeyValueStorage {
+    private items = new Map<string, string>();
+    private pendingReads: (() => void)[] = [];
+    holdReads = false;
+
+    constructor(initial: Record<string, string> = {}) {
+        for (const [key, value] of Object.entries(initial)) this.items.set(key, value);
+    }
+
+    getItem(key: string): Promise<string | null> {
+        const read = () => this.items.get(key) ?? null;
+        if (!this.holdReads) return Promise.resolve(read());
+        return new Promise(resolve => this.pendingReads.push(() => resolve(read())));
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    releaseReads(): void {
+        this.holdReads = false;
+        this.pendingReads.splice(0).forEach(release => release());
+    }
+
+    peek(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+}
@@ -0,0 +1,147 @@
+// mockExpoAv.ts
+// Just enough of expo-av for the providers to run under jest. Sounds keep
+// their status in memory and only move when advanceSounds() is called,
+// pushing status callbacks the way the native module does.
+
+type StatusCallback = (status: any) => void;
+
+const DEFAULT_DURATION_MILLIS = 60000;
+
+let durationMillis = DEFAULT_DURATION_MILLIS;
+let failingSources = new Set<unknown>();
+const sounds: MockSound[] = [];
+
+export class MockSound {
+    private loaded = true;
+    private playing = false;
+    private shouldPlay = false;
+    private positionMillis = 0;
+    private volume = 1;
+    private isLooping = false;
+    private onStatus: StatusCallback | null = null;
+
+    constructor(readonly source: unknown, initialStatus: any = {}, onStatus?: StatusCallback) {
+        this.volume = initialStatus.volume ?? 1;
+        this.isLooping = initialStatus.isLooping ?? false;
+        this.onStatus = onStatus ?? null;
+    }
+
+    async playAsync() {
+        this.shouldPlay = true;
+        this.playing = true;
+        this.push();
+        return this.getStatus();
+    }
+
+    async pauseAsync() {
+        this.shouldPlay = false;
+        this.playing = false;
+        this.push();
+        return this.getStatus();
+    }
+
+    async stopAsync() {
+        this.shouldPlay = false;
+        this.playing = false;
+        this.positionMillis = 0;
+        this.push();
+        return this.getStatus();
+    }
+
+    async setPositionAsync(positionMillis: number) {
+        this.positionMillis = positionMillis;
+        return this.getStatus();
+    }
+
+    async setVolumeAsync(volume: number) {
+        this.volume = volume;
+        return this.getStatus();
+    }
+
+    async unloadAsync() {
+        this.loaded = false;
+        this.playing = false;
+        return this.getStatus();
+    }
+
+    async getStatusAsync() {
+        return this.getStatus();
+    }
+
+    setOnAudioSampleReceived() {}
+
+    isLoaded() {
+        return this.loaded;
+    }
+
+    isPlaying() {
+        return this.loaded && this.playing;
+    }
+
+    getVolume() {
+        return this.volume;
+    }
+
+    // The system pausing playback, e.g. for a call — shouldPlay stays set
+    interrupt() {
+        this.playing = false;
+        this.push();
+    }
+
+    advance(ms: number) {
+        if (!this.isPlaying()) return;
+        this.positionMillis = Math.min(durationMillis, this.positionMillis + ms);
+        if (this.positionMillis >= durationMillis && !this.isLooping) {
+            this.playing = false;
+            this.shouldPlay = false;
+            this.push(true);
+            return;
+        }
+        this.push();
+    }
+
+    private getStatus(didJustFinish = false) {
+        if (!this.loaded) return { isLoaded: false };
+        return {
+            isLoaded: true,
+            isPlaying: this.playing,
+            shouldPlay: this.shouldPlay,
+            isBuffering: false,
+            isLooping: this.isLooping,
+            positionMillis: this.positionMillis,
+            durationMillis,
+            volume: this.volume,
+            didJustFinish,
+        };
+    }
+
+    private push(didJustFinish = false) {
+        if (this.loaded) this.onStatus?.(this.getStatus(didJustFinish));
+    }
+}
+
+export const Audio = {
+    Sound: {
+        createAsync: async (source: unknown, initialStatus: any = {}, onStatus?: StatusCallback) => {
+            if (failingSources.has(source)) throw new Error('Mock load failure');
+            const sound = new MockSound(source, initialStatus, onStatus);
+            sounds.push(sound);
+            return { sound, status: await sound.getStatusAsync() };
+        },
+    },
+    setAudioModeAsync: async () => {},
+};
+
+// Moves every playing sound forward, then lets queued provider work settle
+export const advanceSounds = async (ms: number) => {
+    for (const sound of sounds) sound.advance(ms);
+    await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+export const getSounds = (): MockSound[] => sounds;
+
+export const resetMockAudio = (options: { durationMillis?: number; failingSources?: unknown[] } = {}) => {
+    sounds.length = 0;
+    durationMillis = options.durationMillis ?? DEFAULT_DURATION_MILLIS;
+    failingSources = new Set(options.failingSources ?? []);
+};
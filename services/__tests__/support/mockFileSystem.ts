@@ -0,0 +1,22 @@
+// mockFileSystem.ts
+// Stand-in for expo-file-system's File and Paths — a file exists once written
+
+const files = new Set<string>();
+
+export class File {
+    uri: string;
+
+    constructor(directory: string, name: string) {
+        this.uri = `${directory}/${name}`;
+    }
+
+    get exists() {
+        return files.has(this.uri);
+    }
+
+    write() {
+        files.add(this.uri);
+    }
+}
+
+export const Paths = { cache: 'file:///cache' };